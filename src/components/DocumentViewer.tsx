@@ -1,39 +1,306 @@
+import { useState, useEffect, useRef } from "react";
+import { AlertTriangle, RotateCw } from "lucide-react";
+import { BoundingBox, PageResult } from "@/utils/pdfProcessor";
+import { DocumentSource, PasswordCallback, RenderHandle, openDocument } from "@/utils/inputAdapters";
+import { ExtractedField } from "@/utils/fieldProvenance";
+import { cn } from "@/lib/utils";
 
-import { useState, useEffect } from "react";
-import { Card } from "@/components/ui/card";
-import { AlertTriangle } from "lucide-react";
+export interface FieldHighlightRequest {
+  field: string;
+  // Distinguishes repeated requests for the same field so each one flashes
+  requestedAt: number;
+}
 
 interface DocumentViewerProps {
   file: File;
+  // Needed to reopen an encrypted PDF that has already been unlocked
+  password?: string;
+  // Asked when `password` is missing or wrong, e.g. for a reloaded job
+  onPassword?: PasswordCallback;
+  fields?: ExtractedField[];
+  // Processing results, used to label pages that were turned upright for OCR
+  pages?: PageResult[];
+  highlightRequest?: FieldHighlightRequest | null;
+  // While enabled, dragging on a page selects a region instead of scrolling
+  selectionEnabled?: boolean;
+  onRegionSelect?: (pageNumber: number, region: BoundingBox) => void;
+}
+
+// Pages are drawn at this multiple of their PDF point size
+const DISPLAY_SCALE = 1.5;
+const FLASH_DURATION_MS = 1600;
+// Drags smaller than this, in PDF points, are treated as stray clicks
+const MIN_REGION_SIZE = 4;
+
+interface PageSize {
+  width: number;
+  height: number;
+}
+
+interface PageViewProps {
+  source: DocumentSource;
+  pageNumber: number;
+  size: PageSize;
+  // Clockwise turn applied before OCR, if the scan was sideways or upside down
+  rotation: number;
+  fields: ExtractedField[];
+  flashingField: string | null;
+  selectionEnabled: boolean;
+  onRegionSelect?: (pageNumber: number, region: BoundingBox) => void;
 }
 
-export const DocumentViewer = ({ file }: DocumentViewerProps) => {
-  const [pdfUrl, setPdfUrl] = useState<string>("");
+interface Point {
+  x: number;
+  y: number;
+}
+
+const toBox = (a: Point, b: Point): BoundingBox => ({
+  x0: Math.min(a.x, b.x),
+  y0: Math.min(a.y, b.y),
+  x1: Math.max(a.x, b.x),
+  y1: Math.max(a.y, b.y),
+});
+
+const PageView = ({
+  source,
+  pageNumber,
+  size,
+  rotation,
+  fields,
+  flashingField,
+  selectionEnabled,
+  onRegionSelect,
+}: PageViewProps) => {
+  const wrapperRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [isVisible, setIsVisible] = useState(false);
+  const [drag, setDrag] = useState<{ start: Point; current: Point } | null>(null);
+
+  // Pointer position in PDF points relative to the top left of the page
+  const toPagePoint = (event: React.PointerEvent): Point => {
+    const rect = wrapperRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(Math.max(event.clientX - rect.left, 0), rect.width) / DISPLAY_SCALE,
+      y: Math.min(Math.max(event.clientY - rect.top, 0), rect.height) / DISPLAY_SCALE,
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent) => {
+    if (!selectionEnabled || event.button !== 0) return;
+    event.preventDefault();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const point = toPagePoint(event);
+    setDrag({ start: point, current: point });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (!drag) return;
+    setDrag({ ...drag, current: toPagePoint(event) });
+  };
+
+  const handlePointerUp = (event: React.PointerEvent) => {
+    if (!drag) return;
+    const region = toBox(drag.start, toPagePoint(event));
+    setDrag(null);
+    if (region.x1 - region.x0 >= MIN_REGION_SIZE && region.y1 - region.y0 >= MIN_REGION_SIZE) {
+      onRegionSelect?.(pageNumber, region);
+    }
+  };
+
+  useEffect(() => {
+    if (!selectionEnabled) {
+      setDrag(null);
+    }
+  }, [selectionEnabled]);
+
+  const dragBox = drag ? toBox(drag.start, drag.current) : null;
+
+  // Only render pages once they come near the viewport so long contracts
+  // do not hold a full-size canvas for every page
+  useEffect(() => {
+    const wrapper = wrapperRef.current;
+    if (!wrapper) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some(entry => entry.isIntersecting)) {
+          setIsVisible(true);
+          observer.disconnect();
+        }
+      },
+      { rootMargin: "400px" }
+    );
+    observer.observe(wrapper);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (!isVisible) return;
+
+    let cancelled = false;
+    let renderTask: RenderHandle | undefined;
+
+    source.getPage(pageNumber)
+      .then(page => {
+        const canvas = canvasRef.current;
+        const context = canvas?.getContext("2d");
+        if (cancelled || !canvas || !context) return;
+
+        canvas.width = Math.floor(page.width * DISPLAY_SCALE);
+        canvas.height = Math.floor(page.height * DISPLAY_SCALE);
+        renderTask = page.render(context, DISPLAY_SCALE);
+        return renderTask.promise.finally(() => page.release());
+      })
+      .catch(error => {
+        if (error?.name !== "RenderingCancelledException") {
+          console.error(`Error rendering page ${pageNumber}:`, error);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [isVisible, source, pageNumber]);
+
+  return (
+    <div
+      ref={wrapperRef}
+      data-page-number={pageNumber}
+      className={cn("relative mx-auto mb-4 bg-white shadow select-none", selectionEnabled && "cursor-crosshair")}
+      style={{ width: size.width * DISPLAY_SCALE, height: size.height * DISPLAY_SCALE }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => setDrag(null)}
+    >
+      <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+      {fields.map((field) => {
+        const { bbox, renderScale } = field.source!;
+        const factor = DISPLAY_SCALE / renderScale;
+        return (
+          <div
+            key={field.field}
+            data-field={field.field}
+            title={`${field.field}: ${field.value}`}
+            className={cn(
+              "absolute rounded-sm border-2 border-red-500/70 bg-red-500/10 transition-colors",
+              flashingField === field.field && "animate-pulse border-yellow-500 bg-yellow-300/50"
+            )}
+            style={{
+              left: bbox!.x0 * factor,
+              top: bbox!.y0 * factor,
+              width: (bbox!.x1 - bbox!.x0) * factor,
+              height: (bbox!.y1 - bbox!.y0) * factor,
+            }}
+          />
+        );
+      })}
+      {dragBox && (
+        <div
+          className="absolute border-2 border-dashed border-blue-600 bg-blue-500/10"
+          style={{
+            left: dragBox.x0 * DISPLAY_SCALE,
+            top: dragBox.y0 * DISPLAY_SCALE,
+            width: (dragBox.x1 - dragBox.x0) * DISPLAY_SCALE,
+            height: (dragBox.y1 - dragBox.y0) * DISPLAY_SCALE,
+          }}
+        />
+      )}
+      <span className="absolute top-1 right-2 text-xs text-gray-400">
+        Page {pageNumber}
+        {rotation !== 0 && (
+          <span className="ml-1 inline-flex items-center text-amber-600" title="Page was turned upright before OCR">
+            <RotateCw className="h-3 w-3 mr-0.5" />
+            {rotation}°
+          </span>
+        )}
+      </span>
+    </div>
+  );
+};
+
+export const DocumentViewer = ({
+  file,
+  password,
+  onPassword,
+  fields = [],
+  pages = [],
+  highlightRequest,
+  selectionEnabled = false,
+  onRegionSelect,
+}: DocumentViewerProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [source, setSource] = useState<DocumentSource | null>(null);
+  const [pageSizes, setPageSizes] = useState<PageSize[]>([]);
   const [hasError, setHasError] = useState(false);
+  const [flashingField, setFlashingField] = useState<string | null>(null);
 
   useEffect(() => {
-    if (file) {
+    if (!file) return;
+
+    let cancelled = false;
+    let loadedSource: DocumentSource | null = null;
+    setSource(null);
+    setHasError(false);
+
+    const load = async () => {
       try {
-        const url = URL.createObjectURL(file);
-        setPdfUrl(url);
-        setHasError(false);
+        loadedSource = await openDocument(file, { password, onPassword });
+        const sizes = await Promise.all(
+          Array.from({ length: loadedSource.pageCount }, async (_, index) => {
+            const { width, height } = await loadedSource!.getPage(index + 1);
+            return { width, height };
+          })
+        );
 
-        return () => {
-          URL.revokeObjectURL(url);
-        };
+        if (!cancelled) {
+          setPageSizes(sizes);
+          setSource(loadedSource);
+        }
       } catch (error) {
-        console.error("Error creating PDF URL:", error);
-        setHasError(true);
+        console.error("Error loading document for preview:", error);
+        if (!cancelled) {
+          setHasError(true);
+        }
       }
-    }
-  }, [file]);
+    };
+    load();
+
+    return () => {
+      cancelled = true;
+      loadedSource?.destroy();
+    };
+    // A new callback identity does not warrant reloading the document
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [file, password]);
+
+  // Scroll to and flash the source region of the requested field
+  useEffect(() => {
+    if (!highlightRequest || !source) return;
+
+    const field = fields.find(candidate => candidate.field === highlightRequest.field);
+    if (!field?.source) return;
+
+    const container = containerRef.current;
+    const target = field.source.bbox
+      ? container?.querySelector(`[data-field="${CSS.escape(field.field)}"]`)
+      : container?.querySelector(`[data-page-number="${field.source.pageNumber}"]`);
+    target?.scrollIntoView({ behavior: "smooth", block: "center" });
+
+    setFlashingField(field.field);
+    const timeout = setTimeout(() => setFlashingField(null), FLASH_DURATION_MS);
+    return () => clearTimeout(timeout);
+    // Only react to new requests, not to edits of the field values
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [highlightRequest, source]);
 
   if (hasError) {
     return (
       <div className="w-full h-[1200px] border rounded-lg overflow-hidden bg-red-50 flex items-center justify-center">
         <div className="text-center p-6">
           <AlertTriangle className="h-8 w-8 text-red-500 mx-auto mb-3" />
-          <p className="text-red-700 font-medium">Unable to display PDF</p>
+          <p className="text-red-700 font-medium">Unable to display document</p>
           <p className="text-red-600 text-sm mt-1">File may be corrupted or invalid</p>
         </div>
       </div>
@@ -41,14 +308,24 @@ export const DocumentViewer = ({ file }: DocumentViewerProps) => {
   }
 
   return (
-    <div className="w-full h-[1200px] border rounded-lg overflow-hidden bg-gray-50">
-      {pdfUrl ? (
-        <iframe
-          src={pdfUrl}
-          className="w-full h-full border-0"
-          title="Document Preview"
-          onError={() => setHasError(true)}
-        />
+    <div ref={containerRef} className="w-full h-[1200px] border rounded-lg overflow-auto bg-gray-50 p-4">
+      {source ? (
+        pageSizes.map((size, index) => {
+          const pageNumber = index + 1;
+          return (
+            <PageView
+              key={pageNumber}
+              source={source}
+              pageNumber={pageNumber}
+              size={size}
+              rotation={pages.find(page => page.pageNumber === pageNumber)?.rotation ?? 0}
+              fields={fields.filter(field => field.source?.bbox && field.source.pageNumber === pageNumber)}
+              flashingField={flashingField}
+              selectionEnabled={selectionEnabled}
+              onRegionSelect={onRegionSelect}
+            />
+          );
+        })
       ) : (
         <div className="flex items-center justify-center h-full">
           <div className="text-center">
@@ -3,17 +3,33 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { AlertTriangle, FileText } from "lucide-react";
+import { PageResult } from "@/utils/pdfProcessor";
 
 interface ExtractedTextViewerProps {
   extractedText: string;
   confidence: number;
   onTextUpdate: (newText: string) => void;
+  pages?: PageResult[];
 }
 
+const getPageStatusLabel = (page: PageResult) => {
+  switch (page.status) {
+    case "textLayer":
+      return "embedded text";
+    case "ocr":
+      return `OCR ${Math.round(page.confidence)}%`;
+    case "empty":
+      return "no text";
+    default:
+      return "failed";
+  }
+};
+
 export const ExtractedTextViewer = ({ 
   extractedText, 
   confidence, 
-  onTextUpdate 
+  onTextUpdate,
+  pages = []
 }: ExtractedTextViewerProps) => {
   const isLowConfidence = confidence < 70;
 
@@ -36,6 +52,22 @@ export const ExtractedTextViewer = ({
           <p className="text-sm text-gray-600">
             This is the raw text extracted from your document. You can edit it to correct any OCR errors before field extraction.
           </p>
+          {pages.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {pages.map((page) => (
+                <Badge
+                  key={page.pageNumber}
+                  variant={page.status === "failed" || page.status === "empty" ? "destructive" : "outline"}
+                  title={page.error}
+                  className="text-xs"
+                >
+                  Page {page.pageNumber}: {getPageStatusLabel(page)}
+                  {page.rotation ? `, rotated ${page.rotation}°` : ""}
+                  {page.cached ? ", cached" : ""}
+                </Badge>
+              ))}
+            </div>
+          )}
           {isLowConfidence && (
             <p className="text-sm text-red-600 bg-red-100 p-2 rounded">
               Low confidence detected - please review and correct the text below
@@ -5,29 +5,51 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
-import { AlertTriangle, Check } from "lucide-react";
-
-interface ExtractedField {
-  field: string;
-  value: string;
-  confidence: number;
-  originalText?: string;
-}
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { AlertTriangle, Check, CheckCircle, ChevronDown, ScanText } from "lucide-react";
+import { ExtractedField, FieldCandidate } from "@/utils/fieldProvenance";
+import { FieldDefinition, FieldInput, getFieldDefinition, validateFieldValue } from "@/utils/fieldSchema";
+import { checkWrittenAmount, describeWrittenAmount } from "@/utils/fieldExtraction";
+import { formatCents, parseDate } from "@/utils/normalizers";
+import { LegalDescriptionParts } from "@/components/LegalDescriptionParts";
 
 interface FieldExtractorProps {
   extractedData: ExtractedField[];
+  schema: FieldDefinition[];
   confidenceThreshold: number;
   onFieldUpdate: (fieldName: string, newValue: string) => void;
   documentNotes: string;
   onNotesChange: (notes: string) => void;
+  onFieldSelect?: (fieldName: string) => void;
+  // Field currently waiting for a region to be drawn on the document
+  regionTargetField?: string | null;
+  onRegionRequest?: (fieldName: string) => void;
+  onCandidateSelect?: (fieldName: string, candidate: FieldCandidate) => void;
+  // Keep the figure even though it disagrees with the written-out amount
+  onWrittenAmountDismiss?: (fieldName: string) => void;
 }
 
+const collapseWhitespace = (text: string) => text.replace(/\s+/g, " ").trim();
+
 export const FieldExtractor = ({
   extractedData,
+  schema,
   confidenceThreshold,
   onFieldUpdate,
   documentNotes,
   onNotesChange,
+  onFieldSelect,
+  regionTargetField,
+  onRegionRequest,
+  onCandidateSelect,
+  onWrittenAmountDismiss,
 }: FieldExtractorProps) => {
   const [editedFields, setEditedFields] = useState<Set<string>>(new Set());
 
@@ -36,50 +58,18 @@ export const FieldExtractor = ({
     setEditedFields(prev => new Set(prev).add(fieldName));
   };
 
-  const getFieldDisplayName = (field: string) => {
-    const displayNames: Record<string, string> = {
-      "Property Address": "Property Address",
-      "Legal Description": "Legal Description",
-      "Buyer Name": "Buyer Name",
-      "Seller Name": "Seller Name",
-      "Purchase Price": "Purchase Price",
-      "Earnest Money": "Earnest Money",
-      "Execution Date": "Execution Date",
-      "Closing Date": "Closing Date",
-    };
-    return displayNames[field] || field;
-  };
-
-  const getInputType = (field: string) => {
-    if (field.includes("Date")) return "date";
-    return "text";
-  };
-
-  const formatDateValue = (field: string, value: string) => {
-    if (field.includes("Date") && value) {
-      // Convert MM/DD/YYYY to YYYY-MM-DD for date input
-      const parts = value.split("/");
-      if (parts.length === 3) {
-        const [month, day, year] = parts;
-        return `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
-      }
+  // Clicking a card shows the field's source in the document, except when
+  // the click is meant for one of its inputs
+  const handleCardClick = (event: React.MouseEvent, field: ExtractedField) => {
+    if (!field.source || (event.target as HTMLElement).closest("input, textarea, button")) {
+      return;
     }
-    return value;
+    onFieldSelect?.(field.field);
   };
 
-  const handleDateChange = (field: string, dateValue: string) => {
-    // Convert YYYY-MM-DD back to MM/DD/YYYY
-    if (dateValue) {
-      const parts = dateValue.split("-");
-      if (parts.length === 3) {
-        const [year, month, day] = parts;
-        const formattedDate = `${month}/${day}/${year}`;
-        handleFieldChange(field, formattedDate);
-        return;
-      }
-    }
-    handleFieldChange(field, dateValue);
-  };
+  // Fields no longer in the schema are shown as plain text inputs
+  const getInputType = (field: string): FieldInput =>
+    getFieldDefinition(schema, field)?.input ?? "text";
 
   return (
     <div className="space-y-6">
@@ -88,20 +78,39 @@ export const FieldExtractor = ({
         {extractedData.map((field) => {
           const isLowConfidence = field.confidence < confidenceThreshold;
           const isEdited = editedFields.has(field.field);
+          const isRegionTarget = regionTargetField === field.field;
           const inputType = getInputType(field.field);
-          const displayValue = inputType === "date" 
-            ? formatDateValue(field.field, field.value)
+          // Date inputs take ISO dates; values that are not dates show empty
+          const displayValue = inputType === "date"
+            ? parseDate(field.value) ?? ""
             : field.value;
+          const definition = getFieldDefinition(schema, field.field);
+          const validationError = validateFieldValue(definition, field.value);
+          const writtenAmountCheck = checkWrittenAmount(field);
 
           return (
-            <Card key={field.field} className={isLowConfidence ? "border-red-200 bg-red-50" : ""}>
+            <Card
+              key={field.field}
+              className={`${isLowConfidence ? "border-red-200 bg-red-50" : ""} ${field.source ? "cursor-pointer" : ""} ${isRegionTarget ? "ring-2 ring-blue-500" : ""}`}
+              onClick={(event) => handleCardClick(event, field)}
+            >
               <CardContent className="pt-4">
                 <div className="space-y-2">
                   <div className="flex items-center justify-between">
                     <Label htmlFor={field.field} className="text-sm font-medium">
-                      {getFieldDisplayName(field.field)}
+                      {definition?.label ?? field.field}
+                      {definition?.required && <span className="text-red-600 ml-0.5">*</span>}
                     </Label>
                     <div className="flex items-center space-x-2">
+                      {field.source && (
+                        <Badge
+                          variant="outline"
+                          className="text-xs"
+                          title={field.originalText ? `Read as "${field.originalText}"` : undefined}
+                        >
+                          Page {field.source.pageNumber}
+                        </Badge>
+                      )}
                       {isEdited && (
                         <Badge variant="secondary" className="text-xs">
                           <Check className="h-3 w-3 mr-1" />
@@ -115,10 +124,64 @@ export const FieldExtractor = ({
                         {isLowConfidence && <AlertTriangle className="h-3 w-3 mr-1" />}
                         {field.confidence}% confidence
                       </Badge>
+                      {onCandidateSelect && field.candidates && field.candidates.length > 1 && (
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-6 px-1 text-xs"
+                              title="Pick another value found in the document"
+                            >
+                              {field.candidates.length} found
+                              <ChevronDown className="h-3 w-3 ml-0.5" />
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end" className="w-96">
+                            <DropdownMenuLabel className="text-xs text-gray-500">
+                              Values found for {definition?.label ?? field.field}, most likely first
+                            </DropdownMenuLabel>
+                            {field.candidates.map((candidate, index) => (
+                              <DropdownMenuItem
+                                key={index}
+                                onSelect={() => onCandidateSelect(field.field, candidate)}
+                                className="flex flex-col items-start gap-1"
+                              >
+                                <div className="flex w-full items-center justify-between gap-2">
+                                  <span className="font-medium truncate">{candidate.value}</span>
+                                  <div className="flex items-center gap-1 shrink-0">
+                                    {candidate.value === field.value && <Check className="h-3 w-3" />}
+                                    {candidate.source && (
+                                      <Badge variant="outline" className="text-xs">Page {candidate.source.pageNumber}</Badge>
+                                    )}
+                                    <Badge variant="secondary" className="text-xs">Score {candidate.score}</Badge>
+                                  </div>
+                                </div>
+                                <span className="text-xs text-gray-500 break-words">
+                                  {candidate.context.before}
+                                  <mark className="bg-yellow-100 text-gray-900">{candidate.originalText}</mark>
+                                  {candidate.context.after}
+                                </span>
+                              </DropdownMenuItem>
+                            ))}
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      )}
+                      {onRegionRequest && (
+                        <Button
+                          variant={isRegionTarget ? "secondary" : "ghost"}
+                          size="sm"
+                          className="h-6 px-1"
+                          title="Read this field from a region of the document"
+                          onClick={() => onRegionRequest(field.field)}
+                        >
+                          <ScanText className="h-4 w-4" />
+                        </Button>
+                      )}
                     </div>
                   </div>
                   
-                  {field.field === "Legal Description" ? (
+                  {inputType === "textarea" ? (
                     <Textarea
                       id={field.field}
                       value={field.value}
@@ -131,17 +194,54 @@ export const FieldExtractor = ({
                       id={field.field}
                       type={inputType}
                       value={displayValue}
-                      onChange={(e) => {
-                        if (inputType === "date") {
-                          handleDateChange(field.field, e.target.value);
-                        } else {
-                          handleFieldChange(field.field, e.target.value);
-                        }
-                      }}
+                      onChange={(e) => handleFieldChange(field.field, e.target.value)}
                       className={isLowConfidence ? "border-red-300 focus:border-red-500" : ""}
                     />
                   )}
                   
+                  {field.normalized?.type === "legalDescription" && (
+                    <LegalDescriptionParts description={field.normalized.description} />
+                  )}
+                  {field.originalText && !isEdited && collapseWhitespace(field.originalText) !== field.value && (
+                    <p className="text-xs text-gray-500 truncate">Read as "{collapseWhitespace(field.originalText)}"</p>
+                  )}
+                  {validationError && (
+                    <p className="text-xs text-red-600">{validationError}</p>
+                  )}
+                  {writtenAmountCheck === "agrees" && (
+                    <p className="text-xs text-green-700 flex items-center">
+                      <CheckCircle className="h-3 w-3 mr-1 shrink-0" />
+                      Matches the written amount {describeWrittenAmount(field)}
+                    </p>
+                  )}
+                  {writtenAmountCheck === "disagrees" && field.writtenAmount && (
+                    <div className="rounded-md border border-red-300 bg-red-100 p-2 space-y-2">
+                      <p className="text-xs text-red-800 flex items-start">
+                        <AlertTriangle className="h-3 w-3 mr-1 mt-0.5 shrink-0" />
+                        Does not match the written amount {describeWrittenAmount(field)}. Resolve this before approving.
+                      </p>
+                      <div className="flex gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-7 text-xs bg-white"
+                          onClick={() => handleFieldChange(field.field, formatCents(field.writtenAmount!.cents))}
+                        >
+                          Use {formatCents(field.writtenAmount.cents)}
+                        </Button>
+                        {onWrittenAmountDismiss && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 text-xs"
+                            onClick={() => onWrittenAmountDismiss(field.field)}
+                          >
+                            Keep {field.value || "current value"}
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  )}
                   {isLowConfidence && (
                     <p className="text-xs text-red-600">
                       Low confidence - please verify this field
@@ -0,0 +1,376 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowDown, ArrowUp, ListPlus, Plus, RotateCcw, Save, Trash2, X } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import {
+  createFieldId,
+  DEFAULT_FIELD_SCHEMA,
+  ExtractionRule,
+  FIELD_TYPE_DEFAULTS,
+  FieldDefinition,
+  FieldInput,
+  FieldNormalizer,
+  FieldType,
+  loadFieldSchema,
+  resetFieldSchema,
+  RuleKind,
+  saveFieldSchema,
+} from "@/utils/fieldSchema";
+
+const TYPE_LABELS: Record<FieldType, string> = {
+  text: "Text",
+  money: "Money",
+  date: "Date",
+};
+
+const INPUT_LABELS: Record<FieldInput, string> = {
+  text: "Single line",
+  textarea: "Text area",
+  date: "Date picker",
+};
+
+const NORMALIZER_LABELS: Record<FieldNormalizer, string> = {
+  none: "None",
+  trim: "Collapse whitespace",
+  money: "Dollar amount (cents)",
+  date: "Date (ISO)",
+  name: "Name",
+  legalDescription: "Legal description",
+};
+
+const RULE_KIND_LABELS: Record<RuleKind, string> = {
+  regex: "Regex",
+  anchor: "Words after anchor",
+  lineAfterLabel: "Line after label",
+  tableCell: "Table cell",
+};
+
+const RULE_PLACEHOLDERS: Record<RuleKind, string> = {
+  regex: "(?:label)[:\\s]+([^\\n]+)",
+  anchor: "on or before",
+  lineAfterLabel: "^\\s*buyer\\s*:?\\s*$",
+  tableCell: "^purchase price$",
+};
+
+const NEW_RULE: ExtractionRule = { kind: "regex", pattern: "", flags: "i", confidence: 75 };
+
+// The first problem that would stop `schema` from being saved, if any
+const findSchemaError = (schema: FieldDefinition[]): string | null => {
+  for (const field of schema) {
+    if (!field.label.trim()) {
+      return "Every field needs a label.";
+    }
+    if (!field.exportColumn.trim()) {
+      return `${field.label} needs an export column.`;
+    }
+    for (const rule of field.rules) {
+      try {
+        new RegExp(rule.pattern, rule.flags);
+      } catch (error) {
+        return `${field.label} has an invalid pattern: ${error instanceof Error ? error.message : rule.pattern}`;
+      }
+    }
+  }
+  return null;
+};
+
+export const FieldSchemaSettings = () => {
+  const [schema, setSchema] = useState<FieldDefinition[]>(loadFieldSchema);
+  const [isDirty, setIsDirty] = useState(false);
+
+  const updateSchema = (next: FieldDefinition[]) => {
+    setSchema(next);
+    setIsDirty(true);
+  };
+
+  const updateField = (index: number, changes: Partial<FieldDefinition>) => {
+    updateSchema(schema.map((field, i) => (i === index ? { ...field, ...changes } : field)));
+  };
+
+  const updateRule = (fieldIndex: number, ruleIndex: number, changes: Partial<ExtractionRule>) => {
+    const rules = schema[fieldIndex].rules.map((rule, i) => (i === ruleIndex ? { ...rule, ...changes } : rule));
+    updateField(fieldIndex, { rules });
+  };
+
+  const moveField = (index: number, offset: number) => {
+    const next = [...schema];
+    const [field] = next.splice(index, 1);
+    next.splice(index + offset, 0, field);
+    updateSchema(next);
+  };
+
+  const handleTypeChange = (index: number, type: FieldType) => {
+    updateField(index, { type, ...FIELD_TYPE_DEFAULTS[type] });
+  };
+
+  const handleAddField = () => {
+    const label = "New Field";
+    updateSchema([
+      ...schema,
+      {
+        id: createFieldId(label, schema),
+        label,
+        type: "text",
+        required: false,
+        ...FIELD_TYPE_DEFAULTS.text,
+        rules: [{ ...NEW_RULE }],
+        exportColumn: label,
+      },
+    ]);
+  };
+
+  const handleSave = () => {
+    const error = findSchemaError(schema);
+    if (error) {
+      toast({
+        title: "Fields not saved",
+        description: error,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    saveFieldSchema(schema);
+    setIsDirty(false);
+    toast({
+      title: "Fields saved",
+      description: "New documents and re-extracted fields use the updated fields.",
+    });
+  };
+
+  const handleReset = () => {
+    resetFieldSchema();
+    setSchema(DEFAULT_FIELD_SCHEMA);
+    setIsDirty(false);
+    toast({
+      title: "Fields reset",
+      description: "The built-in contract fields have been restored.",
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center">
+              <ListPlus className="h-5 w-5 mr-2 text-red-600" />
+              Extracted Fields
+            </CardTitle>
+            <CardDescription>
+              Fields are extracted, reviewed and exported in this order. Rules use regular expressions: a regex rule
+              reads the value from its first capture group, the other kinds find the label or anchor the value sits
+              next to. Earlier rules score higher when several match.
+            </CardDescription>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Button variant="outline" size="sm" onClick={handleReset}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Reset to Defaults
+            </Button>
+            <Button size="sm" onClick={handleSave} disabled={!isDirty} className="bg-red-700 hover:bg-red-800">
+              <Save className="h-4 w-4 mr-2" />
+              Save
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {schema.map((field, index) => (
+          <div key={field.id} className="border rounded-lg p-4 space-y-4">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{field.label || "Untitled field"}</span>
+                <span className="font-mono text-xs text-gray-500">{field.id}</span>
+                {field.builtIn && <Badge variant="secondary" className="text-xs">Built-in</Badge>}
+              </div>
+              <div className="flex items-center">
+                <Button variant="ghost" size="sm" disabled={index === 0} onClick={() => moveField(index, -1)} title="Move up">
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={index === schema.length - 1}
+                  onClick={() => moveField(index, 1)}
+                  title="Move down"
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                {!field.builtIn && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => updateSchema(schema.filter((_, i) => i !== index))}
+                    className="text-red-600 hover:text-red-800 hover:bg-red-50"
+                    title="Remove field"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor={`${field.id}-label`}>Label</Label>
+                <Input
+                  id={`${field.id}-label`}
+                  value={field.label}
+                  onChange={(e) => updateField(index, { label: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor={`${field.id}-export`}>Export Column</Label>
+                <Input
+                  id={`${field.id}-export`}
+                  value={field.exportColumn}
+                  onChange={(e) => updateField(index, { exportColumn: e.target.value })}
+                />
+              </div>
+              <div className="flex items-end space-x-2 pb-2">
+                <input
+                  type="checkbox"
+                  id={`${field.id}-required`}
+                  checked={field.required}
+                  onChange={(e) => updateField(index, { required: e.target.checked })}
+                />
+                <Label htmlFor={`${field.id}-required`}>Required before approval and export</Label>
+              </div>
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select value={field.type} onValueChange={(value) => handleTypeChange(index, value as FieldType)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(TYPE_LABELS) as FieldType[]).map(type => (
+                      <SelectItem key={type} value={type}>{TYPE_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Input</Label>
+                <Select value={field.input} onValueChange={(value) => updateField(index, { input: value as FieldInput })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(INPUT_LABELS) as FieldInput[]).map(input => (
+                      <SelectItem key={input} value={input}>{INPUT_LABELS[input]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Normalizer</Label>
+                <Select
+                  value={field.normalizer}
+                  onValueChange={(value) => updateField(index, { normalizer: value as FieldNormalizer })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(NORMALIZER_LABELS) as FieldNormalizer[]).map(normalizer => (
+                      <SelectItem key={normalizer} value={normalizer}>{NORMALIZER_LABELS[normalizer]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Extraction Rules</Label>
+              {field.rules.map((rule, ruleIndex) => (
+                <div key={ruleIndex} className="flex items-center gap-2">
+                  <Select
+                    value={rule.kind}
+                    onValueChange={(value) => updateRule(index, ruleIndex, { kind: value as RuleKind })}
+                  >
+                    <SelectTrigger className="w-44">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(RULE_KIND_LABELS) as RuleKind[]).map(kind => (
+                        <SelectItem key={kind} value={kind}>{RULE_KIND_LABELS[kind]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    value={rule.pattern}
+                    onChange={(e) => updateRule(index, ruleIndex, { pattern: e.target.value })}
+                    placeholder={RULE_PLACEHOLDERS[rule.kind]}
+                    className="font-mono text-xs flex-1"
+                  />
+                  {(rule.kind === "anchor" || rule.kind === "tableCell") && (
+                    <Input
+                      type="number"
+                      value={rule.offset ?? (rule.kind === "tableCell" ? 1 : 0)}
+                      onChange={(e) => updateRule(index, ruleIndex, { offset: Math.max(0, Math.floor(Number(e.target.value))) })}
+                      min="0"
+                      className="w-16"
+                      title={rule.kind === "anchor" ? "Words skipped after the anchor" : "Columns to the right of the label"}
+                    />
+                  )}
+                  {rule.kind === "anchor" && (
+                    <Input
+                      type="number"
+                      value={rule.length ?? 1}
+                      onChange={(e) => updateRule(index, ruleIndex, { length: Math.max(1, Math.floor(Number(e.target.value))) })}
+                      min="1"
+                      className="w-16"
+                      title="Words taken as the value"
+                    />
+                  )}
+                  <Input
+                    value={rule.flags}
+                    onChange={(e) => updateRule(index, ruleIndex, { flags: e.target.value })}
+                    className="font-mono text-xs w-16"
+                    title="Flags"
+                  />
+                  <Input
+                    type="number"
+                    value={rule.confidence}
+                    onChange={(e) => updateRule(index, ruleIndex, { confidence: Number(e.target.value) })}
+                    min="0"
+                    max="100"
+                    className="w-20"
+                    title="Confidence when the source words cannot be located"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => updateField(index, { rules: field.rules.filter((_, i) => i !== ruleIndex) })}
+                    title="Remove rule"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => updateField(index, { rules: [...field.rules, { ...NEW_RULE }] })}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Rule
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        <Button variant="outline" onClick={handleAddField} className="w-full">
+          <Plus className="h-4 w-4 mr-2" />
+          Add Field
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
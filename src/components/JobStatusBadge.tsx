@@ -0,0 +1,23 @@
+import { Badge } from "@/components/ui/badge";
+import { Loader2 } from "lucide-react";
+import { JOB_STATUS_LABELS, JobStatus } from "@/utils/jobStore";
+
+const STATUS_CLASSES: Record<JobStatus, string> = {
+  queued: "bg-gray-100 text-gray-700 border-gray-200",
+  processing: "bg-blue-50 text-blue-700 border-blue-200",
+  review: "bg-yellow-50 text-yellow-800 border-yellow-200",
+  approved: "bg-green-50 text-green-700 border-green-200",
+  exported: "bg-emerald-100 text-emerald-800 border-emerald-300",
+  failed: "bg-red-50 text-red-700 border-red-200",
+};
+
+interface JobStatusBadgeProps {
+  status: JobStatus;
+}
+
+export const JobStatusBadge = ({ status }: JobStatusBadgeProps) => (
+  <Badge variant="outline" className={`whitespace-nowrap ${STATUS_CLASSES[status]}`}>
+    {status === "processing" && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+    {JOB_STATUS_LABELS[status]}
+  </Badge>
+);
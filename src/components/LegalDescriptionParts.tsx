@@ -0,0 +1,101 @@
+import { AlertTriangle, CheckCircle } from "lucide-react";
+import { TraversePlot } from "@/components/TraversePlot";
+import { describeLegalDescription, formatBearing, LegalDescription } from "@/utils/legalDescription";
+import { computeTraverse } from "@/utils/traverse";
+
+interface LegalDescriptionPartsProps {
+  description: LegalDescription;
+}
+
+// How far the computed area may be from the stated acreage before it is
+// pointed out, as a fraction of the stated acreage
+const ACREAGE_TOLERANCE = 0.01;
+
+const formatNumber = (value: number, digits: number) =>
+  value.toLocaleString("en-US", { minimumFractionDigits: digits, maximumFractionDigits: digits });
+
+// The parts parsed out of a legal description, shown under the field. They
+// follow the text, so fixing the text fixes the parts. Metes-and-bounds
+// calls are plotted and checked for closure, which catches most misread
+// bearings and distances. Closure and area mean nothing while a course
+// could not be read, so the unread courses are listed instead.
+export const LegalDescriptionParts = ({ description }: LegalDescriptionPartsProps) => {
+  const parts = describeLegalDescription(description);
+  const unparsedCourses = description.unparsedCourses ?? [];
+  const traverse = unparsedCourses.length === 0 ? computeTraverse(description.calls) : null;
+  const acreageDiffers = traverse && description.acreage !== undefined &&
+    Math.abs(traverse.acres - description.acreage) > description.acreage * ACREAGE_TOLERANCE;
+
+  return (
+    <div className="rounded-md border bg-gray-50 p-2 space-y-2">
+      {parts.length > 0 && (
+        <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+          {parts.map(part => (
+            <div key={part.label} className="contents">
+              <dt className="text-gray-500">{part.label}</dt>
+              <dd className="text-gray-900 break-words">{part.value}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+      {unparsedCourses.length > 0 && (
+        <div className="text-xs text-yellow-800">
+          <p className="flex items-center">
+            <AlertTriangle className="h-3 w-3 mr-1 shrink-0" />
+            {unparsedCourses.length === 1 ? "1 course" : `${unparsedCourses.length} courses`} could not be read, so
+            closure and area are not checked:
+          </p>
+          <ul className="list-disc list-inside mt-1 space-y-0.5 text-gray-900">
+            {unparsedCourses.map((course, index) => (
+              <li key={index} className="break-words">{course}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {description.calls.length > 0 && (
+        <div className="flex flex-col sm:flex-row gap-3 text-xs">
+          <div className="flex-1 min-w-0">
+            <p className="text-gray-500 mb-1">Metes and Bounds ({description.calls.length} calls)</p>
+            <ol className="list-decimal list-inside space-y-0.5 font-mono text-gray-900">
+              {description.calls.map((call, index) => (
+                <li key={index}>
+                  {formatBearing(call.bearing)} {call.distance.toLocaleString("en-US")} {call.unit}
+                  {call.curve && (
+                    <span className="text-gray-500">
+                      {" "}(chord; curve {call.curve.direction}, R {formatNumber(call.curve.radiusFeet, 2)} ft)
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ol>
+            {traverse && (
+              <div className="mt-2 space-y-1">
+                {traverse.closes ? (
+                  <p className="text-green-700 flex items-center">
+                    <CheckCircle className="h-3 w-3 mr-1 shrink-0" />
+                    Closes
+                    {traverse.precision !== null && ` to 1:${formatNumber(traverse.precision, 0)}`}
+                  </p>
+                ) : (
+                  <p className="text-red-700 flex items-start">
+                    <AlertTriangle className="h-3 w-3 mr-1 mt-0.5 shrink-0" />
+                    Misses the point of beginning by {formatNumber(traverse.closureErrorFeet, 2)} ft
+                    {traverse.precision !== null && ` (1:${formatNumber(traverse.precision, 0)})`}.
+                    Check the bearings and distances against the document.
+                  </p>
+                )}
+                <p className="text-gray-700">
+                  Area {formatNumber(traverse.areaSquareFeet, 0)} sq ft ({formatNumber(traverse.acres, 3)} acres)
+                  {acreageDiffers && (
+                    <span className="text-yellow-800"> vs. {description.acreage} acres stated</span>
+                  )}
+                </p>
+              </div>
+            )}
+          </div>
+          {traverse && <TraversePlot traverse={traverse} calls={description.calls} />}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,70 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Lock } from "lucide-react";
+import { PasswordReason } from "@/utils/inputAdapters";
+
+interface PasswordPromptProps {
+  // The prompt is open while a reason is set
+  reason: PasswordReason | null;
+  fileName: string;
+  onSubmit: (password: string) => void;
+  onCancel: () => void;
+}
+
+export const PasswordPrompt = ({ reason, fileName, onSubmit, onCancel }: PasswordPromptProps) => {
+  const [password, setPassword] = useState("");
+
+  // Start empty on every request, including a retry after a wrong password
+  useEffect(() => {
+    setPassword("");
+  }, [reason]);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (password) {
+      onSubmit(password);
+    }
+  };
+
+  return (
+    <Dialog open={reason !== null} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle className="flex items-center">
+              <Lock className="h-5 w-5 mr-2" />
+              Password Required
+            </DialogTitle>
+            <DialogDescription>
+              {reason === "incorrect"
+                ? "That password was not accepted. Please try again."
+                : `${fileName} is password-protected. Enter its password to process it.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="pdf-password">Password</Label>
+            <Input
+              id="pdf-password"
+              type="password"
+              autoFocus
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className={reason === "incorrect" ? "border-red-300 focus:border-red-500" : ""}
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!password} className="bg-red-700 hover:bg-red-800">
+              Open Document
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,86 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { ListChecks, Eye } from "lucide-react";
+import { clearFinishedJobs, QueueEntry, subscribeToQueue } from "@/utils/processingQueue";
+import { JobStatusBadge } from "@/components/JobStatusBadge";
+
+export const ProcessingQueue = () => {
+  const [entries, setEntries] = useState<QueueEntry[]>([]);
+  const navigate = useNavigate();
+
+  useEffect(() => subscribeToQueue(setEntries), []);
+
+  if (entries.length === 0) {
+    return null;
+  }
+
+  const isFinished = (entry: QueueEntry) => entry.status !== "queued" && entry.status !== "processing";
+  const finishedCount = entries.filter(isFinished).length;
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center">
+              <ListChecks className="h-5 w-5 mr-2 text-red-600" />
+              Processing Queue
+            </CardTitle>
+            <CardDescription>
+              {finishedCount} of {entries.length} files processed. Files are read one at a time in the background.
+            </CardDescription>
+          </div>
+          {finishedCount > 0 && (
+            <Button variant="outline" size="sm" onClick={clearFinishedJobs}>
+              Clear Finished
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <ul className="divide-y divide-gray-100">
+          {entries.map(entry => (
+            <li key={entry.jobId} className="py-3 flex items-center justify-between gap-4">
+              <div className="min-w-0 flex-1">
+                <div className="flex items-center gap-2">
+                  <span className="font-mono text-sm text-red-700">{entry.fileId}</span>
+                  <span className="text-sm text-gray-600 truncate">{entry.fileName}</span>
+                </div>
+                {entry.status === "processing" && (
+                  <div className="flex items-center gap-2 mt-2">
+                    <Progress
+                      value={entry.totalPages ? ((entry.completedPages ?? 0) / entry.totalPages) * 100 : 0}
+                      className="h-1.5"
+                    />
+                    <span className="text-xs text-gray-500 whitespace-nowrap">
+                      {entry.totalPages ? `${entry.completedPages ?? 0}/${entry.totalPages} pages` : "Loading..."}
+                    </span>
+                  </div>
+                )}
+                {entry.status === "review" && entry.fieldCount !== undefined && (
+                  <p className="text-xs text-gray-500 mt-1">{entry.fieldCount} fields found</p>
+                )}
+                {entry.status === "failed" && entry.error && (
+                  <p className="text-xs text-red-600 mt-1">{entry.error}</p>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <JobStatusBadge status={entry.status} />
+                {/* Queued jobs are left to the queue so they are not read twice */}
+                {isFinished(entry) && (
+                  <Button variant="outline" size="sm" onClick={() => navigate(`/process/${entry.jobId}`)}>
+                    <Eye className="h-4 w-4 mr-1" />
+                    Open
+                  </Button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+};
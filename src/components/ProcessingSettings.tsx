@@ -0,0 +1,175 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { SlidersHorizontal, RotateCcw, Trash2 } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { PageRange, ProcessingLimits } from "@/utils/pdfProcessor";
+import { clearOCRCache } from "@/utils/ocrCache";
+
+interface ProcessingSettingsProps {
+  limits: ProcessingLimits;
+  onLimitsChange: (limits: ProcessingLimits) => void;
+  // null processes every page
+  pageRange: PageRange | null;
+  onPageRangeChange: (pageRange: PageRange | null) => void;
+  // Shown when the settings are used on their own, e.g. after a limit error
+  onReprocess?: () => void;
+  isProcessing?: boolean;
+}
+
+// A whole number of at least 1, or undefined when the entry is blank or
+// not a number
+const parseCount = (value: string): number | undefined => {
+  if (value.trim() === "") {
+    return undefined;
+  }
+  const parsed = Math.floor(Number(value));
+  return Number.isFinite(parsed) ? Math.max(1, parsed) : undefined;
+};
+
+const toLimitDrafts = (limits: ProcessingLimits): Record<keyof ProcessingLimits, string> => ({
+  maxPages: String(limits.maxPages),
+  maxFileSizeMB: String(limits.maxFileSizeMB),
+});
+
+const toRangeDrafts = (pageRange: PageRange | null): Record<keyof PageRange, string> => ({
+  first: pageRange ? String(pageRange.first) : "",
+  last: pageRange && pageRange.last !== Number.MAX_SAFE_INTEGER ? String(pageRange.last) : "",
+});
+
+export const ProcessingSettings = ({
+  limits,
+  onLimitsChange,
+  pageRange,
+  onPageRangeChange,
+  onReprocess,
+  isProcessing = false,
+}: ProcessingSettingsProps) => {
+  // What is typed is kept as it is, blanks included, and only read once the
+  // input loses focus
+  const [limitDrafts, setLimitDrafts] = useState(() => toLimitDrafts(limits));
+  const [rangeDrafts, setRangeDrafts] = useState(() => toRangeDrafts(pageRange));
+
+  useEffect(() => setLimitDrafts(toLimitDrafts(limits)), [limits]);
+  useEffect(() => setRangeDrafts(toRangeDrafts(pageRange)), [pageRange]);
+
+  // A limit left blank or unreadable goes back to its current value
+  const commitLimit = (key: keyof ProcessingLimits) => {
+    const parsed = parseCount(limitDrafts[key]);
+    const next = { ...limits, [key]: parsed ?? limits[key] };
+    setLimitDrafts(toLimitDrafts(next));
+    if (parsed !== undefined && parsed !== limits[key]) {
+      onLimitsChange(next);
+    }
+  };
+
+  // Either bound may be left blank; both blank means the whole document.
+  // A last page before the first is moved up to it.
+  const commitRange = () => {
+    const first = parseCount(rangeDrafts.first);
+    const last = parseCount(rangeDrafts.last);
+    const next = first === undefined && last === undefined
+      ? null
+      : { first: first ?? 1, last: Math.max(first ?? 1, last ?? Number.MAX_SAFE_INTEGER) };
+    setRangeDrafts(toRangeDrafts(next));
+    if (next?.first !== pageRange?.first || next?.last !== pageRange?.last) {
+      onPageRangeChange(next);
+    }
+  };
+
+  const handleClearCache = async () => {
+    try {
+      await clearOCRCache();
+      toast({
+        title: "OCR cache cleared",
+        description: "Every page will be recognized again on the next run.",
+      });
+    } catch (error) {
+      console.error("Failed to clear the OCR cache:", error);
+      toast({
+        title: "Could not clear the OCR cache",
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <SlidersHorizontal className="h-5 w-5 mr-2" />
+          Processing Settings
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="maxPages">Max Pages</Label>
+            <Input
+              id="maxPages"
+              type="number"
+              min="1"
+              value={limitDrafts.maxPages}
+              onChange={(e) => setLimitDrafts({ ...limitDrafts, maxPages: e.target.value })}
+              onBlur={() => commitLimit("maxPages")}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="maxFileSize">Max File Size (MB)</Label>
+            <Input
+              id="maxFileSize"
+              type="number"
+              min="1"
+              value={limitDrafts.maxFileSizeMB}
+              onChange={(e) => setLimitDrafts({ ...limitDrafts, maxFileSizeMB: e.target.value })}
+              onBlur={() => commitLimit("maxFileSizeMB")}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Page Range</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              min="1"
+              placeholder="First"
+              value={rangeDrafts.first}
+              onChange={(e) => setRangeDrafts({ ...rangeDrafts, first: e.target.value })}
+              onBlur={commitRange}
+            />
+            <span className="text-gray-500">to</span>
+            <Input
+              type="number"
+              min="1"
+              placeholder="Last"
+              value={rangeDrafts.last}
+              onChange={(e) => setRangeDrafts({ ...rangeDrafts, last: e.target.value })}
+              onBlur={commitRange}
+            />
+          </div>
+          <p className="text-xs text-gray-500">Leave blank to process every page</p>
+        </div>
+
+        <Button variant="outline" size="sm" onClick={handleClearCache} className="w-full">
+          <Trash2 className="h-4 w-4 mr-2" />
+          Clear Cached OCR Results
+        </Button>
+
+        {onReprocess && (
+          <Button
+            onClick={onReprocess}
+            disabled={isProcessing}
+            className="w-full bg-red-700 hover:bg-red-800"
+          >
+            <RotateCcw className="h-4 w-4 mr-2" />
+            {isProcessing ? "Processing..." : "Retry with These Settings"}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -9,6 +9,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Settings, RotateCcw } from "lucide-react";
 import { TesseractConfig, TESSERACT_PRESETS } from "@/utils/pdfProcessor";
+import { BinarizationMethod, PreprocessingConfig } from "@/utils/imagePreprocessing";
 
 interface TesseractConfigProps {
   config: TesseractConfig;
@@ -38,6 +39,25 @@ export const TesseractConfigComponent = ({
     });
   };
 
+  const handlePreprocessingChange = <K extends keyof PreprocessingConfig>(key: K, value: PreprocessingConfig[K]) => {
+    onConfigChange({
+      ...config,
+      preprocessing: {
+        ...config.preprocessing,
+        [key]: value
+      }
+    });
+  };
+
+  const preprocessing = config.preprocessing ?? {};
+  const preprocessingSummary = [
+    preprocessing.grayscale && "Grayscale",
+    preprocessing.binarization && preprocessing.binarization !== "none" && `${preprocessing.binarization[0].toUpperCase()}${preprocessing.binarization.slice(1)}`,
+    preprocessing.despeckle && "Despeckle",
+    preprocessing.deskew && "Deskew",
+    preprocessing.removeBorders && "Borders",
+  ].filter(Boolean).join(", ") || "None";
+
   return (
     <Card>
       <CardHeader>
@@ -85,6 +105,12 @@ export const TesseractConfigComponent = ({
                   <div className="text-xs text-gray-500">For documents with scattered text</div>
                 </div>
               </SelectItem>
+              <SelectItem value="faxScan">
+                <div>
+                  <div className="font-medium">Fax / Poor Scan</div>
+                  <div className="text-xs text-gray-500">Cleans up noisy, grey or skewed scans</div>
+                </div>
+              </SelectItem>
             </SelectContent>
           </Select>
         </div>
@@ -122,6 +148,62 @@ export const TesseractConfigComponent = ({
           </div>
         </div>
 
+        {/* Image Preprocessing */}
+        <div className="space-y-3">
+          <Label>Image Preprocessing</Label>
+          <div className="grid grid-cols-2 gap-2 text-sm">
+            <div className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                id="preprocessGrayscale"
+                checked={preprocessing.grayscale || false}
+                onChange={(e) => handlePreprocessingChange('grayscale', e.target.checked)}
+              />
+              <Label htmlFor="preprocessGrayscale" className="font-normal">Grayscale</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                id="preprocessDeskew"
+                checked={preprocessing.deskew || false}
+                onChange={(e) => handlePreprocessingChange('deskew', e.target.checked)}
+              />
+              <Label htmlFor="preprocessDeskew" className="font-normal">Deskew</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                id="preprocessDespeckle"
+                checked={preprocessing.despeckle || false}
+                onChange={(e) => handlePreprocessingChange('despeckle', e.target.checked)}
+              />
+              <Label htmlFor="preprocessDespeckle" className="font-normal">Despeckle</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                id="preprocessBorders"
+                checked={preprocessing.removeBorders || false}
+                onChange={(e) => handlePreprocessingChange('removeBorders', e.target.checked)}
+              />
+              <Label htmlFor="preprocessBorders" className="font-normal">Remove borders</Label>
+            </div>
+          </div>
+          <Select
+            value={preprocessing.binarization || "none"}
+            onValueChange={(value) => handlePreprocessingChange('binarization', value as BinarizationMethod)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">No binarization</SelectItem>
+              <SelectItem value="otsu">Otsu (global threshold)</SelectItem>
+              <SelectItem value="sauvola">Sauvola (adaptive, for uneven backgrounds)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
         {/* Advanced Settings Toggle */}
         <Button
           variant="outline"
@@ -164,6 +246,16 @@ export const TesseractConfigComponent = ({
               />
               <Label htmlFor="preserveSpaces">Preserve Inter-word Spaces</Label>
             </div>
+
+            <div className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                id="autoRotate"
+                checked={config.autoRotate || false}
+                onChange={(e) => handleConfigChange('autoRotate', e.target.checked)}
+              />
+              <Label htmlFor="autoRotate">Auto-rotate Sideways or Upside-down Pages</Label>
+            </div>
           </div>
         )}
 
@@ -179,10 +271,18 @@ export const TesseractConfigComponent = ({
               <span>Page Seg Mode:</span>
               <Badge variant="secondary">{config.pageSegMode}</Badge>
             </div>
+            <div className="flex justify-between">
+              <span>Preprocessing:</span>
+              <Badge variant="secondary">{preprocessingSummary}</Badge>
+            </div>
             <div className="flex justify-between">
               <span>Preserve Spaces:</span>
               <Badge variant="secondary">{config.preserveInterwordSpaces ? "Yes" : "No"}</Badge>
             </div>
+            <div className="flex justify-between">
+              <span>Auto-rotate:</span>
+              <Badge variant="secondary">{config.autoRotate ? "Yes" : "No"}</Badge>
+            </div>
           </div>
         </div>
 
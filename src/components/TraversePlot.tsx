@@ -0,0 +1,115 @@
+import { MetesAndBoundsCall } from "@/utils/legalDescription";
+import { bearingToAzimuth, curveAngle, Traverse, TraversePoint } from "@/utils/traverse";
+
+interface TraversePlotProps {
+  traverse: Traverse;
+  calls: MetesAndBoundsCall[];
+}
+
+const SIZE = 200;
+const PADDING = 20;
+
+// Middle of a curve's arc, which bulges away from the side of the chord its
+// center is on
+const arcMidpoint = (call: MetesAndBoundsCall, from: TraversePoint, to: TraversePoint): TraversePoint => {
+  const radius = call.curve!.radiusFeet;
+  const sagitta = radius - radius * Math.cos(curveAngle(call) / 2);
+  const azimuth = bearingToAzimuth(call.bearing);
+  // A curve to the right bulges to the left of the direction of travel
+  const side = call.curve!.direction === "right" ? -1 : 1;
+  return {
+    easting: (from.easting + to.easting) / 2 + side * sagitta * Math.cos(azimuth),
+    northing: (from.northing + to.northing) / 2 - side * sagitta * Math.sin(azimuth),
+  };
+};
+
+// The traverse drawn north up, with each course numbered as in the call
+// list and the gap back to the point of beginning dashed in red when it
+// does not close
+export const TraversePlot = ({ traverse, calls }: TraversePlotProps) => {
+  // Fit the arcs of curves as well as the corners
+  const extent = [
+    ...traverse.points,
+    ...calls.flatMap((call, index) =>
+      call.curve ? [arcMidpoint(call, traverse.points[index], traverse.points[index + 1])] : []
+    ),
+  ];
+  const eastings = extent.map(point => point.easting);
+  const northings = extent.map(point => point.northing);
+  const minEasting = Math.min(...eastings);
+  const maxNorthing = Math.max(...northings);
+  const width = Math.max(...eastings) - minEasting;
+  const height = maxNorthing - Math.min(...northings);
+  const scale = (SIZE - 2 * PADDING) / Math.max(width, height, 1);
+  // Center the shorter side
+  const offsetX = PADDING + (SIZE - 2 * PADDING - width * scale) / 2;
+  const offsetY = PADDING + (SIZE - 2 * PADDING - height * scale) / 2;
+
+  const points = traverse.points.map(point => ({
+    x: offsetX + (point.easting - minEasting) * scale,
+    y: offsetY + (maxNorthing - point.northing) * scale,
+  }));
+
+  const path = [
+    `M ${points[0].x} ${points[0].y}`,
+    ...calls.map((call, index) => {
+      const { x, y } = points[index + 1];
+      if (!call.curve) {
+        return `L ${x} ${y}`;
+      }
+      const radius = call.curve.radiusFeet * scale;
+      const largeArc = curveAngle(call) > Math.PI ? 1 : 0;
+      const sweep = call.curve.direction === "right" ? 1 : 0;
+      return `A ${radius} ${radius} 0 ${largeArc} ${sweep} ${x} ${y}`;
+    }),
+  ].join(" ");
+
+  const start = points[0];
+  const end = points[points.length - 1];
+
+  return (
+    <svg
+      viewBox={`0 0 ${SIZE} ${SIZE}`}
+      className="w-full max-w-[220px] aspect-square bg-white rounded border overflow-visible"
+      role="img"
+      aria-label="Plot of the metes and bounds calls"
+    >
+      <path d={path} fill="rgba(59, 130, 246, 0.08)" stroke="#2563eb" strokeWidth={1.5} strokeLinejoin="round" />
+      {!traverse.closes && (
+        <line
+          x1={end.x}
+          y1={end.y}
+          x2={start.x}
+          y2={start.y}
+          stroke="#dc2626"
+          strokeWidth={1.5}
+          strokeDasharray="4 3"
+        />
+      )}
+      {calls.map((_, index) => {
+        const from = points[index];
+        const to = points[index + 1];
+        return (
+          <text
+            key={index}
+            x={(from.x + to.x) / 2}
+            y={(from.y + to.y) / 2}
+            fontSize={9}
+            textAnchor="middle"
+            dominantBaseline="middle"
+            fill="#374151"
+            stroke="white"
+            strokeWidth={3}
+            paintOrder="stroke"
+          >
+            {index + 1}
+          </text>
+        );
+      })}
+      <circle cx={start.x} cy={start.y} r={3} fill="#111827" />
+      <text x={start.x + 5} y={start.y - 5} fontSize={8} fill="#111827">POB</text>
+      <text x={SIZE - 8} y={12} fontSize={9} textAnchor="middle" fill="#6b7280">N</text>
+      <path d={`M ${SIZE - 8} 16 l -3 8 l 3 -2 l 3 2 z`} fill="#6b7280" />
+    </svg>
+  );
+};
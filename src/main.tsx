@@ -1,5 +1,9 @@
 import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
+import { resumeSavedJobs } from './utils/processingQueue'
+
+// Jobs a reload interrupted go back in the background queue
+resumeSavedJobs().catch(error => console.error("Failed to resume queued jobs:", error));
 
 createRoot(document.getElementById("root")!).render(<App />);
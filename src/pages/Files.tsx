@@ -0,0 +1,328 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, AlertTriangle, FolderOpen, Search, Upload } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { JobStatusBadge } from "@/components/JobStatusBadge";
+import { JOB_STATUS_LABELS, JobStatus, listJobs, ProcessingJob } from "@/utils/jobStore";
+import { QueueEntry, subscribeToQueue } from "@/utils/processingQueue";
+import { FieldDefinition, loadFieldSchema } from "@/utils/fieldSchema";
+
+// Fields shown for each file in the list: the required ones short enough
+// to fit on a line
+const getKeyFields = (schema: FieldDefinition[]) =>
+  schema.filter(field => field.required && field.input !== "textarea");
+
+// Characters of extracted text shown on each side of a search match
+const SNIPPET_CONTEXT = 60;
+
+const getFieldValue = (job: ProcessingJob, fieldId: string) =>
+  job.fields?.find(field => field.field === fieldId)?.value ?? "";
+
+const countLowConfidence = (job: ProcessingJob) =>
+  job.fields?.filter(field => field.confidence < job.confidenceThreshold).length ?? 0;
+
+// Everything a search can match: the file's names, its extracted text,
+// field values and notes
+const getSearchText = (job: ProcessingJob) =>
+  [
+    job.fileId,
+    job.file.name,
+    job.extractedText ?? "",
+    ...(job.fields ?? []).map(field => field.value),
+    job.notes ?? "",
+  ].join("\n").toLowerCase();
+
+const getSnippet = (text: string, term: string): string | null => {
+  const index = text.toLowerCase().indexOf(term);
+  if (index < 0) {
+    return null;
+  }
+  const start = Math.max(0, index - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, index + term.length + SNIPPET_CONTEXT);
+  return `${start > 0 ? "..." : ""}${text.slice(start, end).replace(/\s+/g, " ")}${end < text.length ? "..." : ""}`;
+};
+
+// Start and end of a yyyy-mm-dd date input's day in local time
+const startOfDay = (date: string) => new Date(`${date}T00:00:00`).getTime();
+const endOfDay = (date: string) => new Date(`${date}T23:59:59.999`).getTime();
+
+const Files = () => {
+  const navigate = useNavigate();
+  const [jobs, setJobs] = useState<ProcessingJob[] | null>(null);
+  const [queueEntries, setQueueEntries] = useState<QueueEntry[]>([]);
+  const [search, setSearch] = useState("");
+  const [closerFilter, setCloserFilter] = useState("all");
+  const [statusFilter, setStatusFilter] = useState<JobStatus | "all">("all");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [keyFields] = useState(() => getKeyFields(loadFieldSchema()));
+
+  // Reload whenever a queued job changes status, so statuses stay current.
+  // Page progress ticks are skipped: each reload reads every saved job,
+  // page words and boxes included.
+  useEffect(() => {
+    let cancelled = false;
+    let loadedStatuses: string | null = null;
+
+    const unsubscribe = subscribeToQueue((entries) => {
+      setQueueEntries(entries);
+      const statuses = entries.map(entry => `${entry.jobId}:${entry.status}`).join(",");
+      if (statuses === loadedStatuses) {
+        return;
+      }
+      loadedStatuses = statuses;
+      listJobs()
+        .then(saved => {
+          if (!cancelled) setJobs(saved);
+        })
+        .catch((error) => {
+          console.error("Failed to load jobs:", error);
+          if (!cancelled) {
+            setJobs([]);
+            toast({
+              title: "Could not load files",
+              description: "The saved jobs could not be read from this browser's storage.",
+              variant: "destructive",
+            });
+          }
+        });
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  const closers = useMemo(
+    () => Array.from(new Set((jobs ?? []).map(job => job.closerInitials).filter(Boolean))).sort(),
+    [jobs]
+  );
+
+  const searchTerms = useMemo(() => search.toLowerCase().split(/\s+/).filter(Boolean), [search]);
+
+  const filteredJobs = useMemo(() => (jobs ?? []).filter(job => {
+    if (closerFilter !== "all" && job.closerInitials !== closerFilter) return false;
+    if (statusFilter !== "all" && job.status !== statusFilter) return false;
+    if (fromDate && job.createdAt < startOfDay(fromDate)) return false;
+    if (toDate && job.createdAt > endOfDay(toDate)) return false;
+    if (searchTerms.length > 0) {
+      const text = getSearchText(job);
+      return searchTerms.every(term => text.includes(term));
+    }
+    return true;
+  }), [jobs, closerFilter, statusFilter, fromDate, toDate, searchTerms]);
+
+  // Jobs still waiting in the batch queue are opened once it gets to them
+  const isWaitingInQueue = (job: ProcessingJob) =>
+    queueEntries.some(entry =>
+      entry.jobId === job.id && (entry.status === "queued" || entry.status === "processing")
+    );
+
+  const hasFilters = search || closerFilter !== "all" || statusFilter !== "all" || fromDate || toDate;
+
+  const clearFilters = () => {
+    setSearch("");
+    setCloserFilter("all");
+    setStatusFilter("all");
+    setFromDate("");
+    setToDate("");
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white border-b border-gray-200 shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center">
+              <Button
+                variant="ghost"
+                onClick={() => navigate("/")}
+                className="mr-4"
+              >
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back
+              </Button>
+              <div>
+                <h1 className="text-xl font-bold text-red-800">Processed Files</h1>
+                <p className="text-sm text-gray-600">
+                  {jobs ? `${jobs.length} file${jobs.length === 1 ? "" : "s"} saved in this browser` : "Loading..."}
+                </p>
+              </div>
+            </div>
+            <Button onClick={() => navigate("/")} className="bg-red-700 hover:bg-red-800">
+              <Upload className="h-4 w-4 mr-2" />
+              Upload
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto py-8 px-4 sm:px-6 lg:px-8 space-y-6">
+        {/* Filters */}
+        <Card>
+          <CardContent className="pt-6">
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="file-search">Search</Label>
+                <div className="relative">
+                  <Search className="h-4 w-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+                  <Input
+                    id="file-search"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder="File ID, names, addresses or any extracted text"
+                    className="pl-9"
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Closer</Label>
+                <Select value={closerFilter} onValueChange={setCloserFilter}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All closers</SelectItem>
+                    {closers.map(closer => (
+                      <SelectItem key={closer} value={closer}>{closer}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Status</Label>
+                <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as JobStatus | "all")}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All statuses</SelectItem>
+                    {(Object.keys(JOB_STATUS_LABELS) as JobStatus[]).map(status => (
+                      <SelectItem key={status} value={status}>{JOB_STATUS_LABELS[status]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-2">
+                  <Label htmlFor="from-date">From</Label>
+                  <Input id="from-date" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="to-date">To</Label>
+                  <Input id="to-date" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+                </div>
+              </div>
+            </div>
+            {hasFilters && (
+              <div className="flex items-center justify-between mt-4 text-sm text-gray-600">
+                <span>{filteredJobs.length} of {jobs?.length ?? 0} files match</span>
+                <Button variant="ghost" size="sm" onClick={clearFilters}>
+                  Clear Filters
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* File List */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <FolderOpen className="h-5 w-5 mr-2 text-red-600" />
+              Files
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {jobs && filteredJobs.length === 0 ? (
+              <p className="text-center text-gray-500 py-8">
+                {jobs.length === 0 ? "No files have been processed in this browser yet." : "No files match the filters."}
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>File ID</TableHead>
+                    <TableHead>Closer</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Low Confidence</TableHead>
+                    <TableHead>Key Fields</TableHead>
+                    <TableHead>Uploaded</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredJobs.map(job => {
+                    const lowConfidenceCount = countLowConfidence(job);
+                    const waiting = isWaitingInQueue(job);
+                    const snippet = searchTerms.length > 0 && job.extractedText
+                      ? getSnippet(job.extractedText, searchTerms[0])
+                      : null;
+
+                    return (
+                      <TableRow
+                        key={job.id}
+                        onClick={() => !waiting && navigate(`/process/${job.id}`)}
+                        className={waiting ? "opacity-75" : "cursor-pointer"}
+                      >
+                        <TableCell className="align-top">
+                          <div className="font-mono text-red-700">{job.fileId}</div>
+                          <div className="text-xs text-gray-500 truncate max-w-[14rem]">{job.file.name}</div>
+                          {snippet && (
+                            <div className="text-xs text-gray-600 italic mt-1 max-w-[14rem]">{snippet}</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="align-top font-medium">{job.closerInitials || "-"}</TableCell>
+                        <TableCell className="align-top">
+                          <JobStatusBadge status={job.status} />
+                          {job.status === "failed" && job.error && (
+                            <div className="text-xs text-red-600 mt-1 max-w-[12rem]">{job.error}</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="align-top">
+                          {lowConfidenceCount > 0 ? (
+                            <Badge variant="destructive">
+                              <AlertTriangle className="h-3 w-3 mr-1" />
+                              {lowConfidenceCount}
+                            </Badge>
+                          ) : job.fields ? (
+                            <span className="text-sm text-gray-500">None</span>
+                          ) : (
+                            <span className="text-sm text-gray-400">-</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="align-top">
+                          <dl className="text-xs space-y-0.5">
+                            {keyFields.map(field => (
+                              <div key={field.id} className="flex gap-1">
+                                <dt className="text-gray-500 whitespace-nowrap">{field.label}:</dt>
+                                <dd className="text-gray-900 truncate max-w-[16rem]">{getFieldValue(job, field.id) || "-"}</dd>
+                              </div>
+                            ))}
+                          </dl>
+                        </TableCell>
+                        <TableCell className="align-top text-sm text-gray-600 whitespace-nowrap">
+                          {new Date(job.createdAt).toLocaleDateString()}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default Files;
@@ -3,57 +3,98 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Upload, FileText, Settings, X } from "lucide-react";
+import { Upload, FileText, FolderOpen, Settings, X } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { toast } from "@/hooks/use-toast";
+import { getDocumentKind, SUPPORTED_FILE_ACCEPT } from "@/utils/inputAdapters";
+import { createJob } from "@/utils/jobStore";
+import { enqueueJobs } from "@/utils/processingQueue";
+import { ProcessingQueue } from "@/components/ProcessingQueue";
+import { loadFieldSchema } from "@/utils/fieldSchema";
 
 const Index = () => {
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
   const [fileNumber, setFileNumber] = useState("0001");
   const [closerInitials, setCloserInitials] = useState("");
   const [confidenceThreshold, setConfidenceThreshold] = useState(85);
+  const [fieldSchema] = useState(loadFieldSchema);
   const navigate = useNavigate();
 
-  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file && file.type === "application/pdf") {
-      setSelectedFile(file);
-      console.log("File selected:", file.name);
-    } else {
+  const clearFileInput = () => {
+    const fileInput = document.getElementById("file-upload") as HTMLInputElement;
+    if (fileInput) {
+      fileInput.value = "";
+    }
+  };
+
+  // Add files from the picker or a drop, skipping unsupported ones and
+  // files that are already selected
+  const addFiles = (files: File[]) => {
+    const supported = files.filter(file => getDocumentKind(file));
+    const rejected = files.length - supported.length;
+    if (rejected > 0) {
       toast({
         title: "Invalid file type",
-        description: "Please select a PDF file.",
+        description: `${rejected} file${rejected === 1 ? " was" : "s were"} skipped. Please select PDF, DOCX, PNG, JPEG or TIFF files.`,
         variant: "destructive",
       });
     }
+
+    setSelectedFiles(prev => [
+      ...prev,
+      ...supported.filter(file =>
+        !prev.some(selected => selected.name === file.name && selected.size === file.size && selected.lastModified === file.lastModified)
+      ),
+    ]);
+    console.log("Files selected:", supported.map(file => file.name));
   };
 
-  const handleRemoveFile = () => {
-    console.log("Remove button clicked");
-    setSelectedFile(null);
-    // Clear the file input
-    const fileInput = document.getElementById("file-upload") as HTMLInputElement;
-    if (fileInput) {
-      fileInput.value = "";
-      console.log("File input cleared");
-    }
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(event.target.files ?? []));
+    clearFileInput();
+  };
+
+  const handleDragOver = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from(event.dataTransfer.files));
+  };
+
+  const handleRemoveFile = (index: number) => {
+    setSelectedFiles(prev => prev.filter((_, i) => i !== index));
     toast({
       title: "File removed",
       description: "The selected file has been removed.",
     });
   };
 
-  const generateFileId = () => {
+  // Files in a batch get consecutive file numbers starting at the one
+  // entered, keeping its zero padding
+  const getFileNumber = (offset: number) => {
+    const start = parseInt(fileNumber, 10);
+    if (offset === 0 || Number.isNaN(start)) {
+      return fileNumber;
+    }
+    return String(start + offset).padStart(fileNumber.length, "0");
+  };
+
+  const generateFileId = (offset = 0) => {
     const year = new Date().getFullYear().toString().slice(-2);
-    return `${year}-${fileNumber}-${closerInitials}`;
+    return `${year}-${getFileNumber(offset)}-${closerInitials}`;
   };
 
-  const handleUpload = () => {
+  const handleUpload = async () => {
     console.log("Process Contract button clicked!");
-    console.log("Selected file:", selectedFile);
+    console.log("Selected files:", selectedFiles);
     console.log("Closer initials:", closerInitials);
     
-    if (!selectedFile || !closerInitials) {
+    if (selectedFiles.length === 0 || !closerInitials) {
       console.log("Missing information - showing toast");
       toast({
         title: "Missing information",
@@ -63,19 +104,36 @@ const Index = () => {
       return;
     }
 
-    const fileId = generateFileId();
-    console.log("Processing file:", selectedFile.name, "with ID:", fileId);
-    console.log("About to navigate to /process");
-    
-    // Navigate to processing page with file data
-    navigate("/process", {
-      state: {
-        file: selectedFile,
-        fileId,
-        confidenceThreshold,
-      },
-    });
-    console.log("Navigate call completed");
+    // Save the jobs first so the review screen survives a refresh
+    try {
+      const jobs = await Promise.all(
+        selectedFiles.map((file, index) =>
+          createJob({ file, fileId: generateFileId(index), closerInitials, confidenceThreshold })
+        )
+      );
+
+      // A single file is processed on the review screen as before
+      if (jobs.length === 1) {
+        console.log("About to navigate to job", jobs[0].id);
+        navigate(`/process/${jobs[0].id}`);
+        return;
+      }
+
+      enqueueJobs(jobs);
+      setSelectedFiles([]);
+      setFileNumber(getFileNumber(jobs.length));
+      toast({
+        title: `${jobs.length} files queued`,
+        description: "They are processed in the background. Open each one from the queue once it is ready.",
+      });
+    } catch (error) {
+      console.error("Failed to save job:", error);
+      toast({
+        title: "Could not start processing",
+        description: "The documents could not be saved in this browser's storage.",
+        variant: "destructive",
+      });
+    }
   };
 
   return (
@@ -92,10 +150,16 @@ const Index = () => {
                 <h2 className="text-lg text-gray-600">Contract Extractor</h2>
               </div>
             </div>
-            <Button variant="outline" size="sm">
-              <Settings className="h-4 w-4 mr-2" />
-              Settings
-            </Button>
+            <div className="flex items-center space-x-2">
+              <Button variant="outline" size="sm" onClick={() => navigate("/files")}>
+                <FolderOpen className="h-4 w-4 mr-2" />
+                Files
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => navigate("/settings")}>
+                <Settings className="h-4 w-4 mr-2" />
+                Settings
+              </Button>
+            </div>
           </div>
         </div>
       </header>
@@ -107,7 +171,7 @@ const Index = () => {
             Upload Commercial Contract
           </h3>
           <p className="text-lg text-gray-600">
-            Upload a PDF contract to extract structured data using AI-powered OCR and NLP
+            Upload a contract to extract structured data using AI-powered OCR and NLP
           </p>
         </div>
 
@@ -119,37 +183,51 @@ const Index = () => {
               Document Upload
             </CardTitle>
             <CardDescription>
-              Select a PDF contract file for processing. Only one file can be processed at a time.
+              Select or drop PDF or Word contracts, scanned images or multi-page TIFF faxes. Several files are queued and processed in the background.
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-6">
             {/* File Upload */}
             <div className="space-y-2">
-              <Label htmlFor="file-upload">Contract File (PDF)</Label>
-              <Input
-                id="file-upload"
-                type="file"
-                accept=".pdf"
-                onChange={handleFileSelect}
-                className="cursor-pointer"
-              />
-              {selectedFile && (
-                <div className="flex items-center justify-between bg-gray-50 p-3 rounded-lg">
+              <Label htmlFor="file-upload">Contract Files (PDF, DOCX, PNG, JPEG or TIFF)</Label>
+              <div
+                onDragOver={handleDragOver}
+                onDragLeave={() => setIsDragging(false)}
+                onDrop={handleDrop}
+                className={`rounded-lg border-2 border-dashed p-4 transition-colors ${
+                  isDragging ? "border-red-400 bg-red-50" : "border-gray-200"
+                }`}
+              >
+                <Input
+                  id="file-upload"
+                  type="file"
+                  multiple
+                  accept={SUPPORTED_FILE_ACCEPT}
+                  onChange={handleFileSelect}
+                  className="cursor-pointer"
+                />
+                <p className="text-xs text-gray-500 mt-2 text-center">or drag and drop files here</p>
+              </div>
+              {selectedFiles.map((file, index) => (
+                <div key={`${file.name}-${file.lastModified}-${file.size}`} className="flex items-center justify-between bg-gray-50 p-3 rounded-lg">
                   <div className="flex items-center text-sm text-gray-600">
                     <FileText className="h-4 w-4 mr-2" />
-                    {selectedFile.name} ({(selectedFile.size / 1024 / 1024).toFixed(2)} MB)
+                    {file.name} ({(file.size / 1024 / 1024).toFixed(2)} MB)
+                    {closerInitials && (
+                      <span className="ml-2 font-mono text-red-700">{generateFileId(index)}</span>
+                    )}
                   </div>
                   <Button
                     variant="ghost"
                     size="sm"
-                    onClick={handleRemoveFile}
+                    onClick={() => handleRemoveFile(index)}
                     className="text-red-600 hover:text-red-800 hover:bg-red-50"
                   >
                     <X className="h-4 w-4" />
                     Remove
                   </Button>
                 </div>
-              )}
+              ))}
             </div>
 
             {/* File Settings */}
@@ -188,24 +266,32 @@ const Index = () => {
             {/* Generated File ID Preview */}
             {closerInitials && (
               <div className="bg-gray-50 p-3 rounded-lg">
-                <Label className="text-sm font-medium text-gray-700">Generated File ID:</Label>
-                <p className="text-lg font-mono text-red-700">{generateFileId()}</p>
+                <Label className="text-sm font-medium text-gray-700">
+                  {selectedFiles.length > 1 ? "Generated File IDs:" : "Generated File ID:"}
+                </Label>
+                <p className="text-lg font-mono text-red-700">
+                  {selectedFiles.length > 1
+                    ? `${generateFileId()} to ${generateFileId(selectedFiles.length - 1)}`
+                    : generateFileId()}
+                </p>
               </div>
             )}
 
             {/* Upload Button */}
             <Button
               onClick={handleUpload}
-              disabled={!selectedFile || !closerInitials}
+              disabled={selectedFiles.length === 0 || !closerInitials}
               className="w-full bg-red-700 hover:bg-red-800 text-white"
               size="lg"
             >
               <Upload className="h-5 w-5 mr-2" />
-              Process Contract
+              {selectedFiles.length > 1 ? `Process ${selectedFiles.length} Contracts` : "Process Contract"}
             </Button>
           </CardContent>
         </Card>
 
+        <ProcessingQueue />
+
         {/* Info Section */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           <Card>
@@ -214,12 +300,9 @@ const Index = () => {
             </CardHeader>
             <CardContent>
               <ul className="space-y-2 text-sm">
-                <li>• Property Address</li>
-                <li>• Legal Description</li>
-                <li>• Buyer & Seller Names</li>
-                <li>• Purchase Price</li>
-                <li>• Earnest Money</li>
-                <li>• Execution & Closing Dates</li>
+                {fieldSchema.map(definition => (
+                  <li key={definition.id}>• {definition.label}</li>
+                ))}
               </ul>
             </CardContent>
           </Card>
@@ -1,208 +1,172 @@
-import { useLocation, useNavigate } from "react-router-dom";
-import { useState, useEffect } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { useState, useEffect, useRef } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { ArrowLeft, Download, Eye, AlertTriangle, RefreshCw } from "lucide-react";
-import { DocumentViewer } from "@/components/DocumentViewer";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, Download, Eye, AlertTriangle, RefreshCw, XCircle, ScanText, Lock, CheckCircle } from "lucide-react";
+import { DocumentViewer, FieldHighlightRequest } from "@/components/DocumentViewer";
 import { FieldExtractor } from "@/components/FieldExtractor";
 import { ExtractedTextViewer } from "@/components/ExtractedTextViewer";
 import { toast } from "@/hooks/use-toast";
-import { processPDFWithOCR, PDFProcessingProgress, TesseractConfig, TESSERACT_PRESETS } from "@/utils/pdfProcessor";
+import { processPDFWithOCR, recognizePDFRegion, BoundingBox, ProcessingCancelledError, ProcessingLimitError, PDFProcessingProgress, PageRange, PageResult, ProcessingLimits, TesseractConfig, TESSERACT_PRESETS } from "@/utils/pdfProcessor";
+import { PDFPasswordError, PasswordReason } from "@/utils/inputAdapters";
 import { TesseractConfigComponent } from "@/components/TesseractConfig";
-
-interface ProcessState {
-  file: File;
-  fileId: string;
-  confidenceThreshold: number;
-}
-
-interface ExtractedField {
-  field: string;
-  value: string;
-  confidence: number;
-  originalText?: string;
-}
+import { ProcessingSettings } from "@/components/ProcessingSettings";
+import { PasswordPrompt } from "@/components/PasswordPrompt";
+import { JobStatusBadge } from "@/components/JobStatusBadge";
+import { loadProcessingLimits, saveProcessingLimits } from "@/utils/processingSettings";
+import { terminateOCRWorkers } from "@/utils/ocrWorkerPool";
+import { claimJob, isQueueRunning, releaseJob } from "@/utils/processingQueue";
+import { unionBoxes } from "@/utils/boundingBox";
+import { ExtractedField, FieldCandidate } from "@/utils/fieldProvenance";
+import { checkWrittenAmount, describeWrittenAmount, extractFieldsFromText, withFieldValue, withSchemaFields } from "@/utils/fieldExtraction";
+import { getFieldDefinition, loadFieldSchema, validateFieldValue } from "@/utils/fieldSchema";
+import { normalizeFieldValue } from "@/utils/normalizers";
+import { getJob, hasReviewResults, JobChanges, ProcessingJob, updateJob } from "@/utils/jobStore";
+
+// Edits are written back to the saved job once typing pauses
+const SAVE_DELAY_MS = 500;
 
 const ProcessContract = () => {
-  const location = useLocation();
+  const { jobId } = useParams<{ jobId: string }>();
   const navigate = useNavigate();
-  const state = location.state as ProcessState;
+  const [job, setJob] = useState<ProcessingJob | null>(null);
 
   const [extractedData, setExtractedData] = useState<ExtractedField[]>([]);
   const [extractedText, setExtractedText] = useState<string>("");
   const [ocrConfidence, setOcrConfidence] = useState<number>(0);
+  const [ocrPages, setOcrPages] = useState<PageResult[]>([]);
   const [isProcessing, setIsProcessing] = useState(true);
   const [documentNotes, setDocumentNotes] = useState("");
-  const [currentStep, setCurrentStep] = useState<"loading" | "converting" | "ocr" | "extraction" | "review" | "fallback">("loading");
+  const [currentStep, setCurrentStep] = useState<"loading" | "textLayer" | "converting" | "ocr" | "extraction" | "review" | "fallback" | "cancelled">("loading");
   const [processingProgress, setProcessingProgress] = useState<{
     pageNumber?: number;
     totalPages?: number;
+    selectedPages?: number;
     ocrProgress?: number;
+    completedPages?: number;
     message?: string;
     error?: string;
   }>({});
   const [processingError, setProcessingError] = useState<string | null>(null);
+  // Errors the review screen offers a specific way out of
+  const [processingErrorKind, setProcessingErrorKind] = useState<"limit" | "password" | null>(null);
+  const [processingLimits, setProcessingLimits] = useState<ProcessingLimits>(loadProcessingLimits);
+  const [pageRange, setPageRange] = useState<PageRange | null>(null);
+  const [fieldSchema] = useState(loadFieldSchema);
   const [tesseractConfig, setTesseractConfig] = useState<TesseractConfig>(TESSERACT_PRESETS.contract);
-
+  const [highlightRequest, setHighlightRequest] = useState<FieldHighlightRequest | null>(null);
+  const [regionTarget, setRegionTarget] = useState<string | null>(null);
+  const [regionPreset, setRegionPreset] = useState<keyof typeof TESSERACT_PRESETS>("singleLine");
+  const [isReadingRegion, setIsReadingRegion] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Encrypted PDFs: the open prompt, the callback waiting on it, and the
+  // last password entered, which is reused to reopen the file for viewing,
+  // region OCR and reprocessing
+  const [passwordReason, setPasswordReason] = useState<PasswordReason | null>(null);
+  const passwordResolverRef = useRef<((password: string | null) => void) | null>(null);
+  const passwordRef = useRef<string | undefined>(undefined);
+  const [documentPassword, setDocumentPassword] = useState<string | undefined>(undefined);
+
+  // Load the saved job. Finished jobs come back exactly as they were left;
+  // anything else is processed (again), which the OCR cache keeps cheap.
   useEffect(() => {
-    if (!state?.file) {
-      navigate("/");
-      return;
-    }
-    
-    processDocument();
-  }, [state, navigate]);
-
-  const extractFieldsFromText = (text: string): ExtractedField[] => {
-    console.log("Starting field extraction from text:", text.substring(0, 200) + "...");
-    const fields: ExtractedField[] = [];
-    
-    // Property Address extraction
-    const addressPatterns = [
-      /(?:property|subject property|premises|located at|address)[:\s]+([^\n\r]+(?:street|st|avenue|ave|road|rd|drive|dr|lane|ln|blvd|boulevard)[^\n\r]*)/gi,
-      /(\d+\s+[^\n\r]+(?:street|st|avenue|ave|road|rd|drive|dr|lane|ln|blvd|boulevard)[^\n\r]*)/gi
-    ];
-    
-    for (const pattern of addressPatterns) {
-      const match = text.match(pattern);
-      if (match) {
-        const address = match[0].replace(/^(property|subject property|premises|located at|address)[:\s]+/gi, '').trim();
-        console.log("Found address:", address);
-        fields.push({
-          field: "Property Address",
-          value: address,
-          confidence: 85
+    let cancelled = false;
+
+    const load = async () => {
+      const saved = jobId ? await getJob(jobId).catch((error) => {
+        console.error("Failed to load job:", error);
+        return null;
+      }) : null;
+      if (cancelled) return;
+
+      if (!saved) {
+        toast({
+          title: "Job not found",
+          description: "The document may have been processed in another browser. Please upload it again.",
+          variant: "destructive",
         });
-        break;
+        navigate("/");
+        return;
       }
-    }
 
-    // Purchase Price extraction
-    const pricePatterns = [
-      /(?:purchase price|sale price|total price)[:\s]*\$?([\d,]+(?:\.\d{2})?)/gi,
-      /\$\s*([\d,]+(?:\.\d{2})?)/g
-    ];
-    
-    for (const pattern of pricePatterns) {
-      const match = text.match(pattern);
-      if (match) {
-        const price = match[0].match(/\$?([\d,]+(?:\.\d{2})?)/);
-        if (price) {
-          console.log("Found price:", price[1]);
-          fields.push({
-            field: "Purchase Price",
-            value: `$${price[1]}`,
-            confidence: 90
-          });
-          break;
-        }
+      setJob(saved);
+      if (saved.tesseractConfig) {
+        setTesseractConfig(saved.tesseractConfig);
       }
-    }
+      if (hasReviewResults(saved)) {
+        setExtractedText(saved.extractedText ?? "");
+        setOcrConfidence(saved.confidence ?? 0);
+        setOcrPages(saved.pages ?? []);
+        setExtractedData(withSchemaFields(saved.fields ?? [], fieldSchema));
+        setDocumentNotes(saved.notes ?? "");
+        setIsProcessing(false);
+        setCurrentStep("review");
+      }
+    };
+    load();
 
-    // Buyer and Seller extraction
-    const buyerMatch = text.match(/(?:buyer|purchaser)[:\s]+([^\n\r]+)/gi);
-    if (buyerMatch) {
-      const buyer = buyerMatch[0].replace(/(?:buyer|purchaser)[:\s]+/gi, '').trim();
-      console.log("Found buyer:", buyer);
-      fields.push({
-        field: "Buyer Name",
-        value: buyer,
-        confidence: 80
-      });
-    }
+    return () => {
+      cancelled = true;
+    };
+  }, [jobId, navigate, fieldSchema]);
 
-    const sellerMatch = text.match(/(?:seller|vendor)[:\s]+([^\n\r]+)/gi);
-    if (sellerMatch) {
-      const seller = sellerMatch[0].replace(/(?:seller|vendor)[:\s]+/gi, '').trim();
-      console.log("Found seller:", seller);
-      fields.push({
-        field: "Seller Name",
-        value: seller,
-        confidence: 80
-      });
+  // Start processing once a job that has no results yet is loaded
+  useEffect(() => {
+    if (job && !hasReviewResults(job)) {
+      processDocument(job.tesseractConfig);
     }
+    // Only when a different job is loaded, not when its contents change
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [job?.id]);
+
+  const saveJob = (changes: JobChanges) => {
+    if (!job) return;
+    const { status } = changes;
+    if (status) {
+      setJob(prev => (prev ? { ...prev, status } : prev));
+    }
+    updateJob(job.id, changes).catch(error => console.error("Failed to save job:", error));
+  };
 
-    // Date extraction
-    const datePatterns = [
-      /(?:closing date|settlement date)[:\s]*(\d{1,2}\/\d{1,2}\/\d{4})/gi,
-      /(?:execution date|signed)[:\s]*(\d{1,2}\/\d{1,2}\/\d{4})/gi
-    ];
-
-    datePatterns.forEach((pattern, index) => {
-      const match = text.match(pattern);
-      if (match) {
-        const fieldName = index === 0 ? "Closing Date" : "Execution Date";
-        const dateMatch = match[0].match(/(\d{1,2}\/\d{1,2}\/\d{4})/);
-        if (dateMatch) {
-          console.log(`Found ${fieldName}:`, dateMatch[1]);
-          fields.push({
-            field: fieldName,
-            value: dateMatch[1],
-            confidence: 75
-          });
-        }
+  // Keep the reviewer's edits in the saved job
+  useEffect(() => {
+    if (!job || currentStep !== "review") return;
+
+    const timeout = setTimeout(() => {
+      saveJob({ extractedText, fields: extractedData, notes: documentNotes });
+    }, SAVE_DELAY_MS);
+    return () => clearTimeout(timeout);
+    // saveJob only closes over `job`, which is listed
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [job, currentStep, extractedText, extractedData, documentNotes]);
+
+  // Stop any run in flight and release the shared Tesseract workers when
+  // leaving the review screen, unless the batch queue is still using them
+  useEffect(() => {
+    return () => {
+      abortControllerRef.current?.abort();
+      if (!isQueueRunning()) {
+        terminateOCRWorkers();
       }
-    });
+    };
+  }, []);
 
-    // Earnest Money extraction
-    const earnestMatch = text.match(/(?:earnest money|deposit)[:\s]*\$?([\d,]+(?:\.\d{2})?)/gi);
-    if (earnestMatch) {
-      const amount = earnestMatch[0].match(/\$?([\d,]+(?:\.\d{2})?)/);
-      if (amount) {
-        console.log("Found earnest money:", amount[1]);
-        fields.push({
-          field: "Earnest Money",
-          value: `$${amount[1]}`,
-          confidence: 85
-        });
+  // The background queue may pick the job up again once it is left
+  useEffect(() => {
+    return () => {
+      if (jobId) {
+        releaseJob(jobId);
       }
-    }
-
-    // Legal Description extraction
-    const legalMatch = text.match(/(?:legal description|lot|block)[:\s]+([^\n\r]{20,})/gi);
-    if (legalMatch) {
-      const legal = legalMatch[0].replace(/(?:legal description)[:\s]+/gi, '').trim();
-      console.log("Found legal description:", legal);
-      fields.push({
-        field: "Legal Description",
-        value: legal,
-        confidence: 70
-      });
-    }
-
-    console.log("Total fields extracted:", fields.length);
-    return fields;
-  };
+    };
+  }, [jobId]);
 
   const reprocessFields = () => {
     console.log("Reprocessing fields from updated text...");
-    const newFields = extractFieldsFromText(extractedText);
-    
-    const requiredFields = [
-      "Property Address",
-      "Legal Description", 
-      "Buyer Name",
-      "Seller Name",
-      "Purchase Price",
-      "Earnest Money",
-      "Execution Date",
-      "Closing Date"
-    ];
-
-    const finalFields = [...newFields];
-    
-    requiredFields.forEach(fieldName => {
-      if (!finalFields.find(f => f.field === fieldName)) {
-        finalFields.push({
-          field: fieldName,
-          value: "",
-          confidence: 0
-        });
-      }
-    });
-
-    setExtractedData(finalFields);
+    const newFields = extractFieldsFromText(extractedText, ocrPages, fieldSchema);
+    setExtractedData(withSchemaFields(newFields, fieldSchema));
     
     toast({
       title: "Fields updated",
@@ -210,27 +174,69 @@ const ProcessContract = () => {
     });
   };
 
+  const requestPassword = (reason: PasswordReason): Promise<string | null> => {
+    passwordResolverRef.current?.(null);
+    return new Promise(resolve => {
+      passwordResolverRef.current = resolve;
+      setPasswordReason(reason);
+    });
+  };
+
+  const settlePasswordRequest = (password: string | null) => {
+    if (password !== null) {
+      passwordRef.current = password;
+    }
+    passwordResolverRef.current?.(password);
+    passwordResolverRef.current = null;
+    setPasswordReason(null);
+  };
+
   const processDocument = async (customConfig?: TesseractConfig) => {
+    // The background queue may already be working on this job, e.g. after a
+    // reload; a second run would overwrite whatever the first one saves
+    if (!claimJob(job.id)) {
+      toast({
+        title: "Processing in the background",
+        description: "This file is being processed in the batch queue. Open it from Files once it is ready.",
+      });
+      navigate("/files");
+      return;
+    }
+
+    abortControllerRef.current?.abort();
+    settlePasswordRequest(null);
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
     try {
       console.log("Starting document processing...");
       setProcessingError(null);
+      setProcessingErrorKind(null);
       setIsProcessing(true);
       setCurrentStep("loading");
 
       const configToUse = customConfig || tesseractConfig;
+      saveJob({ status: "processing", tesseractConfig: configToUse, error: undefined });
 
       toast({
-        title: "Starting PDF processing...",
+        title: "Starting document processing...",
         description: `Using ${configToUse.language} language with page segmentation mode ${configToUse.pageSegMode}`,
       });
 
       // Process PDF with our improved utility and custom config
-      const ocrResult = await processPDFWithOCR(state.file, (progress: PDFProcessingProgress) => {
+      const ocrResult = await processPDFWithOCR(job.file, (progress: PDFProcessingProgress) => {
+        // Ignore late events from a run that has been superseded
+        if (abortControllerRef.current !== abortController) {
+          return;
+        }
+
         setCurrentStep(progress.step);
         setProcessingProgress({
           pageNumber: progress.pageNumber,
           totalPages: progress.totalPages,
+          selectedPages: progress.selectedPages,
           ocrProgress: progress.ocrProgress,
+          completedPages: progress.completedPages,
           message: progress.message,
           error: progress.error
         });
@@ -238,13 +244,21 @@ const ProcessContract = () => {
         if (progress.error) {
           console.warn("Page processing error:", progress.error);
         }
-      }, configToUse);
+      }, configToUse, {
+        signal: abortController.signal,
+        limits: processingLimits,
+        pageRange: pageRange ?? undefined,
+        password: passwordRef.current,
+        onPassword: requestPassword
+      });
 
       console.log("PDF processing completed");
+      setDocumentPassword(passwordRef.current);
       
-      // Store the extracted text and confidence
+      // Store the extracted text, confidence and per-page results
       setExtractedText(ocrResult.text);
       setOcrConfidence(ocrResult.confidence);
+      setOcrPages(ocrResult.pages);
       
       setCurrentStep("extraction");
       toast({
@@ -253,35 +267,21 @@ const ProcessContract = () => {
       });
 
       // Extract fields from OCR text
-      const extractedFields = extractFieldsFromText(ocrResult.text);
+      const extractedFields = extractFieldsFromText(ocrResult.text, ocrResult.pages, fieldSchema);
       
       // Add default fields if not found
-      const requiredFields = [
-        "Property Address",
-        "Legal Description", 
-        "Buyer Name",
-        "Seller Name",
-        "Purchase Price",
-        "Earnest Money",
-        "Execution Date",
-        "Closing Date"
-      ];
-
-      const finalFields = [...extractedFields];
-      
-      requiredFields.forEach(fieldName => {
-        if (!finalFields.find(f => f.field === fieldName)) {
-          finalFields.push({
-            field: fieldName,
-            value: "",
-            confidence: 0
-          });
-        }
-      });
+      const finalFields = withSchemaFields(extractedFields, fieldSchema);
 
       setExtractedData(finalFields);
       setCurrentStep("review");
       setIsProcessing(false);
+      saveJob({
+        status: "review",
+        extractedText: ocrResult.text,
+        confidence: ocrResult.confidence,
+        pages: ocrResult.pages,
+        fields: finalFields
+      });
 
       const successMessage = ocrResult.confidence > 70 
         ? `Successfully extracted ${extractedFields.length} fields with ${Math.round(ocrResult.confidence)}% confidence`
@@ -294,9 +294,30 @@ const ProcessContract = () => {
       });
 
     } catch (error) {
+      if (error instanceof ProcessingCancelledError) {
+        // A newer run has taken over; leave the screen to it
+        if (abortControllerRef.current !== abortController) {
+          return;
+        }
+
+        console.log("Processing cancelled by user");
+        toast({
+          title: "Processing cancelled",
+          description: "OCR was stopped before it finished.",
+        });
+        setIsProcessing(false);
+        // Keep showing the results of an earlier run if there are any
+        setCurrentStep(extractedData.length > 0 ? "review" : "cancelled");
+        saveJob({ status: extractedData.length > 0 ? "review" : "queued" });
+        return;
+      }
+
       console.error("Processing error:", error);
       const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
       setProcessingError(errorMessage);
+      setProcessingErrorKind(
+        error instanceof ProcessingLimitError ? "limit" : error instanceof PDFPasswordError ? "password" : null
+      );
       
       toast({
         title: "Processing failed",
@@ -305,13 +326,24 @@ const ProcessContract = () => {
       });
       setIsProcessing(false);
       setCurrentStep("fallback");
+      saveJob({ status: "failed", error: errorMessage });
     }
   };
 
+  const handleCancelProcessing = () => {
+    abortControllerRef.current?.abort();
+    settlePasswordRequest(null);
+  };
+
   const handleTesseractConfigChange = (newConfig: TesseractConfig) => {
     setTesseractConfig(newConfig);
   };
 
+  const handleProcessingLimitsChange = (limits: ProcessingLimits) => {
+    setProcessingLimits(limits);
+    saveProcessingLimits(limits);
+  };
+
   const handleReprocessWithNewConfig = () => {
     processDocument(tesseractConfig);
   };
@@ -320,56 +352,189 @@ const ProcessContract = () => {
     setExtractedData(prev =>
       prev.map(field =>
         field.field === fieldName
-          ? { ...field, value: newValue, confidence: 100 }
+          ? { ...withFieldValue(field, getFieldDefinition(fieldSchema, fieldName), newValue), confidence: 100 }
+          : field
+      )
+    );
+  };
+
+  const handleCandidateSelect = (fieldName: string, candidate: FieldCandidate) => {
+    setExtractedData(prev =>
+      prev.map(field =>
+        field.field === fieldName
+          ? {
+              ...field,
+              value: candidate.value,
+              normalized: candidate.normalized,
+              confidence: candidate.confidence,
+              originalText: candidate.originalText,
+              source: candidate.source,
+              writtenAmount: candidate.writtenAmount,
+            }
           : field
       )
     );
+    if (candidate.source) {
+      setHighlightRequest({ field: fieldName, requestedAt: Date.now() });
+    }
+  };
+
+  const handleWrittenAmountDismiss = (fieldName: string) => {
+    setExtractedData(prev =>
+      prev.map(field =>
+        field.field === fieldName && field.writtenAmount
+          ? { ...field, writtenAmount: { ...field.writtenAmount, dismissed: true } }
+          : field
+      )
+    );
+  };
+
+  const handleRegionRequest = (fieldName: string) => {
+    if (regionTarget === fieldName) {
+      setRegionTarget(null);
+      return;
+    }
+    setRegionTarget(fieldName);
+    // Fields edited in a text area span several lines; everything else is one line
+    setRegionPreset(getFieldDefinition(fieldSchema, fieldName)?.input === "textarea" ? "contract" : "singleLine");
+  };
+
+  const handleRegionSelect = async (pageNumber: number, region: BoundingBox) => {
+    if (!regionTarget || isReadingRegion) return;
+
+    const fieldName = regionTarget;
+    setIsReadingRegion(true);
+    try {
+      const result = await recognizePDFRegion(job.file, pageNumber, region, {
+        ...TESSERACT_PRESETS[regionPreset],
+        language: tesseractConfig.language,
+      }, passwordRef.current);
+
+      if (!result.text) {
+        toast({
+          title: "No text found",
+          description: "Try drawing a slightly larger region around the text.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const { value, normalized } = normalizeFieldValue(
+        getFieldDefinition(fieldSchema, fieldName),
+        result.text.replace(/\s*\n\s*/g, " ")
+      );
+      setExtractedData(prev =>
+        prev.map(field =>
+          field.field === fieldName
+            ? {
+                ...field,
+                value,
+                normalized,
+                confidence: Math.round(result.confidence),
+                originalText: result.text,
+                source: {
+                  pageNumber,
+                  bbox: result.words.length > 0 ? unionBoxes(result.words.map(word => word.bbox)) : result.bbox,
+                  renderScale: 1,
+                  regionPreset,
+                },
+              }
+            : field
+        )
+      );
+      setRegionTarget(null);
+
+      toast({
+        title: `${getFieldLabel(fieldName)} updated`,
+        description: `Read "${value}" from page ${pageNumber} with ${Math.round(result.confidence)}% confidence`,
+      });
+    } catch (error) {
+      console.error("Region OCR error:", error);
+      toast({
+        title: "Region OCR failed",
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsReadingRegion(false);
+    }
+  };
+
+  const getFieldLabel = (fieldId: string) => getFieldDefinition(fieldSchema, fieldId)?.label ?? fieldId;
+
+  // Problems that have to be fixed before a job can be approved or exported
+  const getValidationErrors = () =>
+    extractedData
+      .flatMap(field => [
+        validateFieldValue(getFieldDefinition(fieldSchema, field.field), field.value),
+        checkWrittenAmount(field) === "disagrees"
+          ? `${getFieldLabel(field.field)} does not match the written amount ${describeWrittenAmount(field)}`
+          : null,
+      ])
+      .filter((error): error is string => error !== null);
+
+  const checkFields = (action: string) => {
+    const errors = getValidationErrors();
+    if (errors.length > 0) {
+      toast({
+        title: `Cannot ${action} yet`,
+        description: errors.join(". "),
+        variant: "destructive",
+      });
+      return false;
+    }
+    return true;
+  };
+
+  const handleApprove = () => {
+    if (checkFields("approve")) {
+      saveJob({ status: "approved" });
+    }
   };
 
   const exportToCSV = () => {
+    if (!checkFields("export")) return;
+
     const headers = [
       "Filename",
-      "Property Address",
-      "Legal Description", 
-      "Buyer",
-      "Seller",
-      "Purchase Price",
-      "Earnest Money",
-      "Execution Date",
-      "Closing Date",
+      ...fieldSchema.map(definition => definition.exportColumn),
       "Notes"
     ];
 
+    // Values are exported in canonical form however the reviewer typed them
     const values = [
-      state.fileId,
-      ...extractedData.map(field => field.value),
+      job.fileId,
+      ...fieldSchema.map(definition =>
+        normalizeFieldValue(definition, extractedData.find(field => field.field === definition.id)?.value ?? "").value
+      ),
       documentNotes
     ];
 
     const csvContent = [headers, values]
-      .map(row => row.map(field => `"${field}"`).join(","))
+      .map(row => row.map(field => `"${field.replace(/"/g, '""')}"`).join(","))
       .join("\n");
 
     const blob = new Blob([csvContent], { type: "text/csv" });
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = url;
-    a.download = `${state.fileId}.csv`;
+    a.download = `${job.fileId}.csv`;
     a.click();
     URL.revokeObjectURL(url);
+    saveJob({ status: "exported" });
 
     toast({
       title: "CSV exported successfully",
-      description: `Downloaded ${state.fileId}.csv`,
+      description: `Downloaded ${job.fileId}.csv`,
     });
   };
 
-  if (!state?.file) {
+  if (!job) {
     return null;
   }
 
   const lowConfidenceCount = extractedData.filter(
-    field => field.confidence < state.confidenceThreshold
+    field => field.confidence < job.confidenceThreshold
   ).length;
 
   const getProgressMessage = () => {
@@ -384,6 +549,8 @@ const ProcessContract = () => {
     switch (currentStep) {
       case "loading":
         return "Loading PDF document...";
+      case "textLayer":
+        return `Reading embedded text on page ${processingProgress.pageNumber}/${processingProgress.totalPages}...`;
       case "converting":
         return `Converting page ${processingProgress.pageNumber}/${processingProgress.totalPages} to image...`;
       case "ocr":
@@ -413,8 +580,8 @@ const ProcessContract = () => {
                 Back
               </Button>
               <div>
-                <h1 className="text-xl font-bold text-red-800">Processing: {state.fileId}</h1>
-                <p className="text-sm text-gray-600">{state.file.name}</p>
+                <h1 className="text-xl font-bold text-red-800">Processing: {job.fileId}</h1>
+                <p className="text-sm text-gray-600">{job.file.name}</p>
               </div>
             </div>
             <div className="flex items-center space-x-4">
@@ -426,6 +593,13 @@ const ProcessContract = () => {
                       {lowConfidenceCount} Low Confidence
                     </Badge>
                   )}
+                  <JobStatusBadge status={job.status} />
+                  {job.status === "review" && (
+                    <Button variant="outline" onClick={handleApprove}>
+                      <CheckCircle className="h-4 w-4 mr-2" />
+                      Approve
+                    </Button>
+                  )}
                   <Button onClick={exportToCSV} className="bg-red-700 hover:bg-red-800">
                     <Download className="h-4 w-4 mr-2" />
                     Export CSV
@@ -448,7 +622,9 @@ const ProcessContract = () => {
             
             {processingProgress.totalPages && (
               <p className="text-gray-600 mb-4">
-                Processing {processingProgress.totalPages} page{processingProgress.totalPages > 1 ? 's' : ''}
+                Processing {processingProgress.selectedPages ?? processingProgress.totalPages} page{(processingProgress.selectedPages ?? processingProgress.totalPages) > 1 ? 's' : ''}
+                {processingProgress.selectedPages !== undefined && processingProgress.selectedPages < processingProgress.totalPages && ` of ${processingProgress.totalPages}`}
+                {processingProgress.completedPages !== undefined && ` (${processingProgress.completedPages} done)`}
               </p>
             )}
             
@@ -467,6 +643,33 @@ const ProcessContract = () => {
                 <p className="text-red-800 text-sm">{processingProgress.error}</p>
               </div>
             )}
+
+            <Button
+              variant="outline"
+              onClick={handleCancelProcessing}
+              className="mt-6"
+            >
+              <XCircle className="h-4 w-4 mr-2" />
+              Cancel
+            </Button>
+          </div>
+        ) : currentStep === "cancelled" ? (
+          <div className="text-center py-12">
+            <XCircle className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">Processing Cancelled</h3>
+            <p className="text-gray-600 mb-6">OCR was stopped before any results were produced.</p>
+            <div className="flex justify-center space-x-4">
+              <Button variant="outline" onClick={() => navigate("/")}>
+                Try Another Document
+              </Button>
+              <Button
+                onClick={() => processDocument()}
+                className="bg-red-700 hover:bg-red-800"
+              >
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Start Again
+              </Button>
+            </div>
           </div>
         ) : processingError ? (
           <div className="text-center py-12">
@@ -478,12 +681,33 @@ const ProcessContract = () => {
             <div className="space-y-2 text-sm text-gray-600 max-w-md mx-auto">
               <p><strong>Common solutions:</strong></p>
               <ul className="text-left space-y-1">
-                <li>• Ensure the PDF is not password-protected</li>
-                <li>• Try a smaller file (under 50MB, max 20 pages)</li>
+                <li>• Process a page range, or raise the processing limits, for very long documents</li>
                 <li>• Make sure the PDF contains readable text</li>
                 <li>• Check that the file is not corrupted</li>
               </ul>
             </div>
+            {processingErrorKind === "password" && (
+              <Button
+                onClick={() => processDocument()}
+                variant="outline"
+                className="mt-6 mr-4"
+              >
+                <Lock className="h-4 w-4 mr-2" />
+                Enter Password
+              </Button>
+            )}
+            {processingErrorKind === "limit" && (
+              <div className="max-w-md mx-auto mt-6 text-left">
+                <ProcessingSettings
+                  limits={processingLimits}
+                  onLimitsChange={handleProcessingLimitsChange}
+                  pageRange={pageRange}
+                  onPageRangeChange={setPageRange}
+                  onReprocess={() => processDocument()}
+                  isProcessing={isProcessing}
+                />
+              </div>
+            )}
             <Button 
               onClick={() => navigate("/")} 
               className="mt-6 bg-red-700 hover:bg-red-800"
@@ -500,9 +724,49 @@ const ProcessContract = () => {
                   <Eye className="h-5 w-5 mr-2" />
                   Document View
                 </CardTitle>
+                {regionTarget && (
+                  <div className="flex flex-wrap items-center gap-3 bg-blue-50 border border-blue-200 rounded-lg p-3 text-sm">
+                    <ScanText className="h-4 w-4 text-blue-700" />
+                    <span className="text-blue-900">
+                      {isReadingRegion
+                        ? `Reading ${getFieldLabel(regionTarget)}...`
+                        : `Drag a box around the ${getFieldLabel(regionTarget)} on the document`}
+                    </span>
+                    <div className="flex items-center gap-2 ml-auto">
+                      <Label className="text-xs">Preset</Label>
+                      <Select
+                        value={regionPreset}
+                        onValueChange={(value) => setRegionPreset(value as keyof typeof TESSERACT_PRESETS)}
+                      >
+                        <SelectTrigger className="h-8 w-36 bg-white">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="singleLine">Single Line</SelectItem>
+                          <SelectItem value="contract">Contract</SelectItem>
+                          <SelectItem value="form">Form</SelectItem>
+                          <SelectItem value="mixed">Mixed Layout</SelectItem>
+                          <SelectItem value="sparseText">Sparse Text</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Button variant="outline" size="sm" onClick={() => setRegionTarget(null)}>
+                        Cancel
+                      </Button>
+                    </div>
+                  </div>
+                )}
               </CardHeader>
               <CardContent>
-                <DocumentViewer file={state.file} />
+                <DocumentViewer
+                  file={job.file}
+                  password={documentPassword}
+                  onPassword={requestPassword}
+                  fields={extractedData}
+                  pages={ocrPages}
+                  highlightRequest={highlightRequest}
+                  selectionEnabled={!!regionTarget && !isReadingRegion}
+                  onRegionSelect={handleRegionSelect}
+                />
               </CardContent>
             </Card>
 
@@ -513,6 +777,7 @@ const ProcessContract = () => {
                   extractedText={extractedText}
                   confidence={ocrConfidence}
                   onTextUpdate={setExtractedText}
+                  pages={ocrPages}
                 />
                 <Button 
                   onClick={reprocessFields} 
@@ -525,13 +790,19 @@ const ProcessContract = () => {
               </div>
 
               {/* Middle Column: Tesseract Configuration */}
-              <div>
+              <div className="space-y-4">
                 <TesseractConfigComponent
                   config={tesseractConfig}
                   onConfigChange={handleTesseractConfigChange}
                   onReprocess={handleReprocessWithNewConfig}
                   isProcessing={isProcessing}
                 />
+                <ProcessingSettings
+                  limits={processingLimits}
+                  onLimitsChange={handleProcessingLimitsChange}
+                  pageRange={pageRange}
+                  onPageRangeChange={setPageRange}
+                />
               </div>
 
               {/* Right Column: Field Extractor */}
@@ -542,10 +813,16 @@ const ProcessContract = () => {
                 <CardContent>
                   <FieldExtractor
                     extractedData={extractedData}
-                    confidenceThreshold={state.confidenceThreshold}
+                    schema={fieldSchema}
+                    confidenceThreshold={job.confidenceThreshold}
                     onFieldUpdate={handleFieldUpdate}
                     documentNotes={documentNotes}
                     onNotesChange={setDocumentNotes}
+                    onFieldSelect={(field) => setHighlightRequest({ field, requestedAt: Date.now() })}
+                    regionTargetField={regionTarget}
+                    onRegionRequest={handleRegionRequest}
+                    onCandidateSelect={handleCandidateSelect}
+                    onWrittenAmountDismiss={handleWrittenAmountDismiss}
                   />
                 </CardContent>
               </Card>
@@ -553,6 +830,13 @@ const ProcessContract = () => {
           </div>
         )}
       </main>
+
+      <PasswordPrompt
+        reason={passwordReason}
+        fileName={job.file.name}
+        onSubmit={settlePasswordRequest}
+        onCancel={() => settlePasswordRequest(null)}
+      />
     </div>
   );
 };
@@ -0,0 +1,87 @@
+// Dollar amounts written out in words, as contracts state them next to the
+// figures: "One Million Two Hundred Fifty Thousand and No/100 Dollars".
+// Amounts are handled in cents so comparisons are exact.
+
+const SMALL_NUMBERS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16,
+  seventeen: 17, eighteen: 18, nineteen: 19,
+  twenty: 20, thirty: 30, forty: 40, fourty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90
+};
+
+const SCALES: Record<string, number> = {
+  thousand: 1_000,
+  million: 1_000_000,
+  billion: 1_000_000_000
+};
+
+const NUMBER_WORD = `(?:${[...Object.keys(SMALL_NUMBERS), 'hundred', ...Object.keys(SCALES)].join('|')})`;
+const NUMBER_WORDS = `${NUMBER_WORD}(?:(?:[\\s,]+|\\s*-\\s*)(?:and\\s+)?${NUMBER_WORD})*`;
+
+// Number words, optional "and 50/100", then "Dollars", optionally followed
+// by "and fifty cents"
+const WRITTEN_AMOUNT = new RegExp(
+  `\\b(${NUMBER_WORDS})` +
+  `(?:\\s+and\\s+(\\d{1,2}|no|xx)\\s*\\/\\s*100(?:ths)?)?` +
+  `\\s+(?:U\\.?\\s?S\\.?\\s+)?dollars?\\b` +
+  `(?:\\s+and\\s+(${NUMBER_WORDS})\\s+cents?\\b)?`,
+  'gi'
+);
+
+export interface WrittenAmount {
+  text: string;
+  cents: number;
+  start: number;
+  end: number;
+}
+
+// Value of a run of number words such as "two hundred fifty thousand".
+// Resolves to null when the words do not form a number.
+export const parseNumberWords = (words: string): number | null => {
+  const tokens = words.toLowerCase().split(/[\s,-]+/).filter(token => token && token !== 'and');
+  if (tokens.length === 0) {
+    return null;
+  }
+
+  let total = 0;
+  let current = 0;
+  for (const token of tokens) {
+    if (token in SMALL_NUMBERS) {
+      current += SMALL_NUMBERS[token];
+    } else if (token === 'hundred') {
+      current = (current || 1) * 100;
+    } else if (token in SCALES) {
+      total += (current || 1) * SCALES[token];
+      current = 0;
+    } else {
+      return null;
+    }
+  }
+  return total + current;
+};
+
+const parseWrittenMatch = (match: RegExpMatchArray): number | null => {
+  const dollars = parseNumberWords(match[1]);
+  if (dollars === null) {
+    return null;
+  }
+
+  let cents = 0;
+  if (match[2] && /^\d+$/.test(match[2])) {
+    cents = Number(match[2]);
+  } else if (match[3]) {
+    cents = parseNumberWords(match[3]) ?? 0;
+  }
+  return cents < 100 ? dollars * 100 + cents : null;
+};
+
+// Every amount written out in words in `text`, in reading order
+export const findWrittenAmounts = (text: string): WrittenAmount[] =>
+  Array.from(text.matchAll(WRITTEN_AMOUNT)).flatMap(match => {
+    const cents = parseWrittenMatch(match);
+    if (cents === null) {
+      return [];
+    }
+    const start = match.index ?? 0;
+    return [{ text: match[0], cents, start, end: start + match[0].length }];
+  });
@@ -0,0 +1,12 @@
+import type { BoundingBox } from '@/utils/pdfProcessor';
+
+// Box geometry shared by OCR and field provenance. Kept apart from
+// pdfProcessor so code that only locates fields does not load pdfjs, which
+// needs the DOM.
+
+export const unionBoxes = (boxes: BoundingBox[]): BoundingBox => ({
+  x0: Math.min(...boxes.map(box => box.x0)),
+  y0: Math.min(...boxes.map(box => box.y0)),
+  x1: Math.max(...boxes.map(box => box.x1)),
+  y1: Math.max(...boxes.map(box => box.y1))
+});
@@ -0,0 +1,19 @@
+// Diagnostics for document processing, off unless turned on from the
+// browser console with localStorage.setItem('debugProcessing', '1'). Only
+// pass counts, timings and settings: never text read from a document.
+
+const DEBUG_STORAGE_KEY = 'debugProcessing';
+
+const isDebugEnabled = (): boolean => {
+  try {
+    return typeof localStorage !== 'undefined' && localStorage.getItem(DEBUG_STORAGE_KEY) === '1';
+  } catch {
+    return false;
+  }
+};
+
+export const debugLog = (message: string, ...details: unknown[]) => {
+  if (isDebugEnabled()) {
+    console.debug(`[processing] ${message}`, ...details);
+  }
+};
@@ -0,0 +1,258 @@
+import { unzipSync, strFromU8 } from 'fflate';
+import type { OCRLine, OCRWord } from '@/utils/pdfProcessor';
+import type { DocumentSource, SourcePage } from '@/utils/inputAdapters';
+
+// A DOCX file is a zip archive; the body text lives in this part
+const DOCUMENT_PART = 'word/document.xml';
+
+// Stands in for an explicit page break while the text is being collected
+const PAGE_BREAK = '\f';
+
+// Elements whose content is not part of the accepted text. Tracked
+// deletions and moved-away text are dropped, which accepts every change;
+// field codes and property blocks never hold visible text.
+const SKIPPED_ELEMENTS = new Set([
+  'del', 'moveFrom', 'delText', 'instrText',
+  'pPr', 'rPr', 'sectPr', 'tblPr', 'tblGrid', 'trPr', 'tcPr',
+  'footnoteReference', 'endnoteReference', 'commentReference'
+]);
+
+// A paragraph whose mark was deleted as a tracked change runs on into the
+// next one once the change is accepted
+const hasDeletedParagraphMark = (paragraph: Element): boolean =>
+  Array.from(paragraph.children).some(child =>
+    child.localName === 'pPr' &&
+    Array.from(child.children).some(property =>
+      property.localName === 'rPr' && Array.from(property.children).some(mark => mark.localName === 'del')
+    )
+  );
+
+const collectRunText = (node: Element): string => {
+  let text = '';
+  for (const child of Array.from(node.children)) {
+    if (SKIPPED_ELEMENTS.has(child.localName)) {
+      continue;
+    }
+    switch (child.localName) {
+      case 't':
+        text += child.textContent ?? '';
+        break;
+      case 'tab':
+        text += '\t';
+        break;
+      case 'br':
+        text += child.getAttribute('w:type') === 'page' ? PAGE_BREAK : '\n';
+        break;
+      case 'cr':
+        text += '\n';
+        break;
+      case 'noBreakHyphen':
+        text += '-';
+        break;
+      default:
+        // Runs nest inside insertions, hyperlinks, content controls and
+        // simple fields
+        text += collectRunText(child);
+    }
+  }
+  return text;
+};
+
+// Table rows become one line each with the cells separated by tabs, so a
+// "Purchase Price | $1,250,000" row reads like a label and its value
+const collectTableText = (table: Element): string[] =>
+  Array.from(table.children)
+    .filter(row => row.localName === 'tr')
+    .map(row =>
+      Array.from(row.children)
+        .filter(cell => cell.localName === 'tc')
+        .map(cell => collectBlocks(cell).join(' ').trim())
+        .join('\t')
+    );
+
+// Paragraph texts of a body, table cell or content control in document order
+const collectBlocks = (container: Element): string[] => {
+  const blocks: string[] = [];
+  let runOn = false;
+
+  for (const child of Array.from(container.children)) {
+    if (SKIPPED_ELEMENTS.has(child.localName)) {
+      continue;
+    }
+    if (child.localName === 'p') {
+      const text = collectRunText(child);
+      if (runOn && blocks.length > 0) {
+        blocks[blocks.length - 1] += text;
+      } else {
+        blocks.push(text);
+      }
+      runOn = hasDeletedParagraphMark(child);
+    } else if (child.localName === 'tbl') {
+      blocks.push(...collectTableText(child));
+      runOn = false;
+    } else {
+      blocks.push(...collectBlocks(child));
+      runOn = false;
+    }
+  }
+  return blocks;
+};
+
+// Read the paragraphs of a DOCX file with all tracked changes accepted
+export const readDocxParagraphs = (buffer: ArrayBuffer): string[] => {
+  const files = unzipSync(new Uint8Array(buffer), { filter: file => file.name === DOCUMENT_PART });
+  const documentXml = files[DOCUMENT_PART];
+  if (!documentXml) {
+    throw new Error("The file has no word/document.xml part.");
+  }
+
+  const xml = new DOMParser().parseFromString(strFromU8(documentXml), 'application/xml');
+  if (xml.getElementsByTagName('parsererror').length > 0) {
+    throw new Error("word/document.xml is not well-formed XML.");
+  }
+
+  const body = Array.from(xml.documentElement.children).find(child => child.localName === 'body');
+  return body ? collectBlocks(body) : [];
+};
+
+// DOCX text is typeset onto letter-size pages so it can be shown and
+// highlighted like any other document. Sizes are in points.
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 72;
+const FONT_SIZE = 11;
+const LINE_HEIGHT = 15;
+const PARAGRAPH_SPACING = 6;
+const TAB_WIDTH = 36;
+const FONT_FAMILY = '"Times New Roman", Times, serif';
+
+interface TextPage {
+  lines: OCRLine[];
+}
+
+const lineOf = (words: OCRWord[], separators: string[]): OCRLine => ({
+  text: words.map((word, index) => (index > 0 ? separators[index] : '') + word.text).join(''),
+  confidence: 100,
+  bbox: {
+    x0: words[0].bbox.x0,
+    y0: words[0].bbox.y0,
+    x1: words[words.length - 1].bbox.x1,
+    y1: words[0].bbox.y1
+  },
+  words
+});
+
+// Wrap paragraphs into lines of positioned words, starting a new page when
+// one fills up or the document asks for a page break
+const layoutParagraphs = (paragraphs: string[]): TextPage[] => {
+  const context = document.createElement('canvas').getContext('2d')!;
+  context.font = `${FONT_SIZE}px ${FONT_FAMILY}`;
+  const spaceWidth = context.measureText(' ').width;
+  const right = PAGE_WIDTH - MARGIN;
+  const bottom = PAGE_HEIGHT - MARGIN;
+
+  const pages: TextPage[] = [{ lines: [] }];
+  let y = MARGIN;
+
+  const newPage = () => {
+    pages.push({ lines: [] });
+    y = MARGIN;
+  };
+
+  for (const paragraph of paragraphs) {
+    const sections = paragraph.split(PAGE_BREAK);
+    sections.forEach((section, sectionIndex) => {
+      if (sectionIndex > 0) {
+        newPage();
+      }
+
+      for (const hardLine of section.split('\n')) {
+        let words: OCRWord[] = [];
+        let separators: string[] = [];
+        let x = MARGIN;
+
+        const flush = () => {
+          if (words.length > 0) {
+            if (y + LINE_HEIGHT > bottom) {
+              newPage();
+              words = words.map(word => ({
+                ...word,
+                bbox: { ...word.bbox, y0: y, y1: y + FONT_SIZE * 1.2 }
+              }));
+            }
+            pages[pages.length - 1].lines.push(lineOf(words, separators));
+          }
+          y += LINE_HEIGHT;
+          words = [];
+          separators = [];
+          x = MARGIN;
+        };
+
+        // Keep each word's leading whitespace so tabs survive into the text
+        for (const [, gap, token] of hardLine.matchAll(/([ \t]*)([^ \t]+)/g)) {
+          const tabs = gap.split('\t').length - 1;
+          const width = context.measureText(token).width;
+          // Tabs jump to the next stop; anything else is a single space
+          const leftOf = (fromX: number) => {
+            if (tabs > 0) {
+              return MARGIN + (Math.floor((fromX - MARGIN) / TAB_WIDTH) + tabs) * TAB_WIDTH;
+            }
+            return words.length === 0 ? fromX : fromX + spaceWidth;
+          };
+
+          if (words.length > 0 && leftOf(x) + width > right) {
+            flush();
+          }
+
+          const left = leftOf(x);
+          words.push({
+            text: token,
+            confidence: 100,
+            bbox: { x0: left, y0: y, x1: left + width, y1: y + FONT_SIZE * 1.2 }
+          });
+          separators.push(tabs > 0 ? '\t' : ' ');
+          x = left + width;
+        }
+        flush();
+      }
+      y += PARAGRAPH_SPACING;
+    });
+  }
+
+  return pages;
+};
+
+const createTextPage = (pageNumber: number, page: TextPage): SourcePage => ({
+  pageNumber,
+  width: PAGE_WIDTH,
+  height: PAGE_HEIGHT,
+  textContent: {
+    text: page.lines.map(line => line.text).join('\n'),
+    lines: page.lines
+  },
+  render: (context, scale, origin = { x: 0, y: 0 }) => {
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, context.canvas.width, context.canvas.height);
+    context.fillStyle = '#000000';
+    context.font = `${FONT_SIZE * scale}px ${FONT_FAMILY}`;
+    context.textBaseline = 'top';
+    for (const word of page.lines.flatMap(line => line.words)) {
+      context.fillText(word.text, (word.bbox.x0 - origin.x) * scale, (word.bbox.y0 - origin.y) * scale);
+    }
+    return { promise: Promise.resolve(), cancel: () => {} };
+  },
+  release: () => {}
+});
+
+// Word documents carry their text, so their pages are read as is and never
+// go through OCR
+export const openDocxSource = async (file: File): Promise<DocumentSource> => {
+  const pages = layoutParagraphs(readDocxParagraphs(await file.arrayBuffer()));
+
+  return {
+    kind: 'docx',
+    pageCount: pages.length,
+    getPage: async (pageNumber) => createTextPage(pageNumber, pages[pageNumber - 1]),
+    destroy: () => {}
+  };
+};
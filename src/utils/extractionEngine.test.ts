@@ -0,0 +1,180 @@
+import { describe, expect, it, vi } from 'vitest';
+import { DEFAULT_FIELD_SCHEMA, ExtractionRule, FieldDefinition, getFieldDefinition } from '@/utils/fieldSchema';
+import { extractCandidates, extractFieldCandidates } from '@/utils/extractionEngine';
+
+const field = (overrides: Partial<FieldDefinition> & { rules: ExtractionRule[] }): FieldDefinition => ({
+  id: 'field',
+  label: 'Field',
+  type: 'text',
+  required: false,
+  input: 'text',
+  normalizer: 'trim',
+  exportColumn: 'Field',
+  ...overrides
+});
+
+const rule = (kind: ExtractionRule['kind'], pattern: string, extra: Partial<ExtractionRule> = {}): ExtractionRule => ({
+  kind,
+  pattern,
+  flags: 'i',
+  confidence: 80,
+  ...extra
+});
+
+describe('extractFieldCandidates', () => {
+  it('reads the first capture group of a regex rule', () => {
+    const text = 'Buyer: Jane Doe\nSeller: John Roe';
+    const [candidate] = extractFieldCandidates(text, field({ rules: [rule('regex', 'buyer:\\s*([^\\n]+)')] }));
+
+    expect(candidate.value).toBe('Jane Doe');
+    expect(text.slice(candidate.start, candidate.end)).toBe('Jane Doe');
+    expect(candidate.ruleKind).toBe('regex');
+  });
+
+  it('places the capture group where it matched when its text appears earlier in the match', () => {
+    const text = 'Lot 12, Block 12, Parcel 7';
+    const [candidate] = extractFieldCandidates(text, field({ rules: [rule('regex', 'lot \\d+, block (\\d+)')] }));
+
+    expect(candidate.value).toBe('12');
+    expect(candidate.start).toBe(text.indexOf('Block') + 'Block '.length);
+  });
+
+  it('reads the words after an anchor', () => {
+    const text = 'Closing shall occur on or before March 3, 2025 at noon.';
+    const [candidate] = extractFieldCandidates(
+      text,
+      field({ rules: [rule('anchor', 'on or before', { offset: 0, length: 3 })] })
+    );
+
+    expect(candidate.text).toBe('March 3, 2025');
+  });
+
+  it('reads the next non-blank line after a label', () => {
+    const text = 'BUYER:\n\n   Jane Doe  \nSELLER:\nJohn Roe';
+    const [candidate] = extractFieldCandidates(
+      text,
+      field({ rules: [rule('lineAfterLabel', '^buyer:$', { flags: 'im' })] })
+    );
+
+    expect(candidate.text).toBe('Jane Doe');
+  });
+
+  it('reads the cell to the right of a label cell', () => {
+    const text = 'Item        Amount\nPurchase Price  |  $250,000.00\nDeposit\t$5,000.00';
+    const [candidate] = extractFieldCandidates(
+      text,
+      field({ type: 'money', normalizer: 'money', rules: [rule('tableCell', 'purchase price')] })
+    );
+
+    expect(candidate.text).toBe('$250,000.00');
+    expect(candidate.normalized).toEqual({ type: 'money', cents: 25_000_000 });
+  });
+
+  it('only takes table cells the pattern matches in full', () => {
+    const text = 'Purchase Price Adjustment  $1,000.00';
+    expect(extractFieldCandidates(text, field({ rules: [rule('tableCell', 'purchase price')] }))).toEqual([]);
+  });
+
+  it('scores earlier rules and earlier matches higher', () => {
+    const text = 'Price: $100.00\nPrice: $200.00\nCost: $300.00';
+    const candidates = extractFieldCandidates(text, field({
+      type: 'money',
+      normalizer: 'money',
+      rules: [rule('regex', 'price:\\s*(\\S+)'), rule('regex', 'cost:\\s*(\\S+)')]
+    }));
+
+    expect(candidates.map(candidate => [candidate.value, candidate.score])).toEqual([
+      ['$100.00', 80],
+      ['$200.00', 77],
+      ['$300.00', 75]
+    ]);
+  });
+
+  it('penalizes values that do not validate for the field type', () => {
+    const [candidate] = extractFieldCandidates(
+      'Closing date: the 15th',
+      field({ type: 'date', normalizer: 'date', rules: [rule('regex', 'closing date:\\s*(.+)')] })
+    );
+
+    expect(candidate.normalized).toBeNull();
+    expect(candidate.score).toBe(50);
+  });
+
+  it('raises a figure whose written-out amount agrees with it', () => {
+    const definition = field({ type: 'money', normalizer: 'money', rules: [rule('regex', '(\\$[\\d,.]+)')] });
+    const [agreeing] = extractFieldCandidates('Five Thousand Dollars ($5,000.00)', definition);
+    const [disagreeing] = extractFieldCandidates('Six Thousand Dollars ($5,000.00)', definition);
+
+    expect(agreeing.writtenAmount).toEqual({ text: 'Five Thousand Dollars', cents: 500_000, agrees: true });
+    expect(agreeing.score).toBe(90);
+    expect(disagreeing.writtenAmount?.agrees).toBe(false);
+    expect(disagreeing.score).toBe(80);
+  });
+
+  it('lists a value found several times once, where it scored best', () => {
+    const text = 'Price: $100.00\nTotal: $100.00\nPrice: $100';
+    const candidates = extractFieldCandidates(text, field({
+      type: 'money',
+      normalizer: 'money',
+      rules: [rule('regex', 'total:\\s*(\\S+)', { confidence: 70 }), rule('regex', 'price:\\s*(\\S+)', { confidence: 90 })]
+    }));
+
+    expect(candidates).toHaveLength(1);
+    expect(candidates[0]).toMatchObject({ value: '$100.00', score: 85, ruleIndex: 1, start: 7 });
+  });
+
+  it('skips rules whose pattern does not compile', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const candidates = extractFieldCandidates('Buyer: Jane Doe', field({
+      rules: [rule('regex', '(unclosed'), rule('regex', 'buyer:\\s*(.+)')]
+    }));
+
+    expect(candidates.map(candidate => candidate.value)).toEqual(['Jane Doe']);
+    expect(warn).toHaveBeenCalledOnce();
+    warn.mockRestore();
+  });
+});
+
+describe('extractCandidates', () => {
+  it('maps every field of the schema, including those without candidates', () => {
+    const schema = [
+      field({ id: 'buyer', rules: [rule('regex', 'buyer:\\s*(.+)')] }),
+      field({ id: 'seller', rules: [rule('regex', 'seller:\\s*(.+)')] })
+    ];
+
+    const candidates = extractCandidates('Buyer: Jane Doe', schema);
+    expect(Object.keys(candidates)).toEqual(['buyer', 'seller']);
+    expect(candidates.buyer[0].value).toBe('Jane Doe');
+    expect(candidates.seller).toEqual([]);
+  });
+});
+
+describe('written-out amounts', () => {
+  const purchasePrice = getFieldDefinition(DEFAULT_FIELD_SCHEMA, 'purchasePrice')!;
+  const earnestMoney = getFieldDefinition(DEFAULT_FIELD_SCHEMA, 'earnestMoney')!;
+  const text = 'Purchase Price: $500,000.00. Earnest Money: Five Thousand Dollars ($5,000.00)';
+
+  it('does not pair a figure with the written amount of another field', () => {
+    const [price] = extractFieldCandidates(text, purchasePrice);
+
+    expect(price.value).toBe('$500,000.00');
+    expect(price.writtenAmount).toBeUndefined();
+  });
+
+  it('reads a figure bracketed after its written amount', () => {
+    const [deposit] = extractFieldCandidates(text, earnestMoney);
+
+    expect(deposit.value).toBe('$5,000.00');
+    expect(deposit.writtenAmount).toEqual({ text: 'Five Thousand Dollars', cents: 500_000, agrees: true });
+  });
+
+  it('pairs a figure with the written amount bracketed after it', () => {
+    const [price] = extractFieldCandidates(
+      'The Purchase Price is $250,000.00 (Two Hundred Fifty Thousand and No/100 Dollars).',
+      purchasePrice
+    );
+
+    expect(price.value).toBe('$250,000.00');
+    expect(price.writtenAmount?.agrees).toBe(true);
+  });
+});
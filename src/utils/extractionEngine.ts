@@ -0,0 +1,279 @@
+import { ExtractionRule, FieldDefinition, RuleKind, validateFieldValue } from '@/utils/fieldSchema';
+import { findWrittenAmounts, WrittenAmount } from '@/utils/amountInWords';
+import { NormalizedValue, normalizeFieldValue } from '@/utils/normalizers';
+
+// Rule-based field extraction over plain text. Every rule of a field
+// produces candidates with character offsets into the text and a score, so
+// callers can take the best one or offer the alternatives. Nothing here
+// touches the DOM, so the engine runs the same in the browser, in workers
+// and in headless tooling.
+
+// Character range of a value in the text
+interface RuleMatch {
+  start: number;
+  end: number;
+}
+
+// Text on either side of a candidate, with whitespace collapsed, so a
+// reviewer can tell a purchase price from a commission at a glance
+export interface CandidateContext {
+  before: string;
+  after: string;
+}
+
+export interface ExtractionCandidate {
+  fieldId: string;
+  // Normalized as the field's definition asks
+  value: string;
+  // The typed value, when the normalizer could parse the text
+  normalized: NormalizedValue | null;
+  // The text the value was read from, exactly as it appears in the input
+  text: string;
+  start: number;
+  end: number;
+  context: CandidateContext;
+  // Money fields: the amount written out in words next to the figure, e.g.
+  // "One Million Dollars" after "$1,000,000.00"
+  writtenAmount?: { text: string; cents: number; agrees: boolean };
+  // 0-100; higher is more likely to be the right value
+  score: number;
+  ruleIndex: number;
+  ruleKind: RuleKind;
+}
+
+// Score lost for each rule ahead of the one that matched, and for each
+// earlier match of the same rule
+const RULE_ORDER_PENALTY = 5;
+const OCCURRENCE_PENALTY = 3;
+
+// Score lost when the value does not validate for the field's type, e.g. a
+// date rule that caught "the 15th day"
+const INVALID_VALUE_PENALTY = 30;
+
+const DEFAULT_MAX_CANDIDATES = 5;
+
+// Characters of context kept on each side of a candidate
+const CONTEXT_LENGTH = 40;
+
+// What may stand between a figure and its written-out amount: at most a
+// comma, a bracket and the dollar sign, as in "$5,000.00 (Five Thousand
+// Dollars)" or "Five Thousand Dollars ($5,000.00)". Anything more, such as
+// a full stop or another field's label, starts another clause.
+const WRITTEN_AMOUNT_GAP = /^\s*[,([]?\s*\$?\s*$/;
+// Score gained when the figure and its written-out amount say the same
+const WRITTEN_AMOUNT_BONUS = 10;
+
+// Cells of a table row as laid out by OCR or DOCX text: separated by tabs,
+// pipes or runs of two or more spaces
+const CELL_SEPARATOR = /\t+|\s*\|\s*| {2,}/g;
+
+// Shrink a range so it does not start or end with whitespace
+const trimRange = (text: string, start: number, end: number): RuleMatch | null => {
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return start < end ? { start, end } : null;
+};
+
+const compilePattern = (rule: ExtractionRule): RegExp | null => {
+  try {
+    // Every rule walks all of its matches and records where its groups are
+    return new RegExp(rule.pattern, rule.flags.replace(/[dgy]/g, '') + 'dg');
+  } catch (error) {
+    console.warn(`Skipping invalid extraction pattern /${rule.pattern}/:`, error);
+    return null;
+  }
+};
+
+// Matches of `pattern`, skipping empty ones that have nothing to read
+const matchAll = (text: string, pattern: RegExp): RegExpMatchArray[] =>
+  Array.from(text.matchAll(pattern)).filter(match => match[0].length > 0 || match[1]);
+
+const lineEnd = (text: string, index: number): number => {
+  const end = text.indexOf('\n', index);
+  return end < 0 ? text.length : end;
+};
+
+type RuleRunner = (text: string, pattern: RegExp, rule: ExtractionRule) => RuleMatch[];
+
+// The pattern matches the value; its first capture group narrows it down
+const runRegexRule: RuleRunner = (text, pattern) =>
+  matchAll(text, pattern).flatMap(match => {
+    const [start, end] = match.indices?.[1] ?? match.indices?.[0] ?? [0, 0];
+    const range = trimRange(text, start, end);
+    return range ? [range] : [];
+  });
+
+// The value is `length` words starting `offset` words after the anchor
+const runAnchorRule: RuleRunner = (text, pattern, rule) =>
+  matchAll(text, pattern).flatMap(match => {
+    const after = (match.index ?? 0) + match[0].length;
+    const words = Array.from(text.slice(after).matchAll(/\S+/g))
+      .slice(rule.offset ?? 0, (rule.offset ?? 0) + Math.max(1, rule.length ?? 1));
+    if (words.length === 0) {
+      return [];
+    }
+    const last = words[words.length - 1];
+    return [{
+      start: after + (words[0].index ?? 0),
+      end: after + (last.index ?? 0) + last[0].length
+    }];
+  });
+
+// The value is the next non-blank line after the line the label is on
+const runLineAfterLabelRule: RuleRunner = (text, pattern) =>
+  matchAll(text, pattern).flatMap(match => {
+    let start = lineEnd(text, (match.index ?? 0) + match[0].length) + 1;
+    while (start < text.length) {
+      const end = lineEnd(text, start);
+      const range = trimRange(text, start, end);
+      if (range) {
+        return [range];
+      }
+      start = end + 1;
+    }
+    return [];
+  });
+
+const splitCells = (text: string, lineStart: number, lineEndIndex: number): RuleMatch[] => {
+  const line = text.slice(lineStart, lineEndIndex);
+  const cells: RuleMatch[] = [];
+  let cellStart = 0;
+  for (const separator of line.matchAll(CELL_SEPARATOR)) {
+    cells.push({ start: lineStart + cellStart, end: lineStart + (separator.index ?? 0) });
+    cellStart = (separator.index ?? 0) + separator[0].length;
+  }
+  cells.push({ start: lineStart + cellStart, end: lineEndIndex });
+  return cells.flatMap(cell => trimRange(text, cell.start, cell.end) ?? []);
+};
+
+// The value is the cell `offset` columns to the right of a cell the
+// pattern matches in full
+const runTableCellRule: RuleRunner = (text, pattern, rule) => {
+  const matches: RuleMatch[] = [];
+  let lineStart = 0;
+  while (lineStart <= text.length) {
+    const end = lineEnd(text, lineStart);
+    const cells = splitCells(text, lineStart, end);
+    cells.forEach((cell, index) => {
+      const target = cells[index + (rule.offset ?? 1)];
+      pattern.lastIndex = 0;
+      const match = pattern.exec(text.slice(cell.start, cell.end));
+      if (target && match && match[0].length === cell.end - cell.start) {
+        matches.push(target);
+      }
+    });
+    lineStart = end + 1;
+  }
+  return matches;
+};
+
+// Each rule kind and how it is run. Adding a kind means adding it to
+// RuleKind and giving it a runner here.
+const RULE_RUNNERS: Record<RuleKind, RuleRunner> = {
+  regex: runRegexRule,
+  anchor: runAnchorRule,
+  lineAfterLabel: runLineAfterLabelRule,
+  tableCell: runTableCellRule
+};
+
+const getContext = (text: string, start: number, end: number): CandidateContext => {
+  const collapse = (value: string) => value.replace(/\s+/g, ' ');
+  const from = Math.max(0, start - CONTEXT_LENGTH);
+  const to = Math.min(text.length, end + CONTEXT_LENGTH);
+  return {
+    before: (from > 0 ? '...' : '') + collapse(text.slice(from, start)).trimStart(),
+    after: collapse(text.slice(end, to)).trimEnd() + (to < text.length ? '...' : '')
+  };
+};
+
+// The written amount in the same clause as a figure, right before or after
+// it. Blank lines end a clause too.
+const findAdjacentWrittenAmount = (
+  text: string,
+  amounts: WrittenAmount[],
+  start: number,
+  end: number
+): WrittenAmount | undefined => {
+  const gap = (amount: WrittenAmount) =>
+    amount.end <= start ? text.slice(amount.end, start) : amount.start >= end ? text.slice(end, amount.start) : null;
+  const isAdjacent = (amount: WrittenAmount) => {
+    const between = gap(amount);
+    return between !== null && WRITTEN_AMOUNT_GAP.test(between) && !/\n\s*\n/.test(between);
+  };
+  return amounts
+    .filter(isAdjacent)
+    .sort((a, b) => gap(a)!.length - gap(b)!.length)[0];
+};
+
+const clampScore = (score: number) => Math.max(0, Math.min(100, Math.round(score)));
+
+// Every candidate value of one field, best first. A value found by several
+// rules or in several places is listed once, where it scored best.
+export const extractFieldCandidates = (
+  text: string,
+  definition: FieldDefinition,
+  maxCandidates: number = DEFAULT_MAX_CANDIDATES
+): ExtractionCandidate[] => {
+  const byValue = new Map<string, ExtractionCandidate>();
+  const writtenAmounts = definition.type === 'money' ? findWrittenAmounts(text) : [];
+
+  definition.rules.forEach((rule, ruleIndex) => {
+    const pattern = compilePattern(rule);
+    if (!pattern) {
+      return;
+    }
+
+    RULE_RUNNERS[rule.kind](text, pattern, rule).forEach((match, occurrence) => {
+      const raw = text.slice(match.start, match.end);
+      const { value, normalized } = normalizeFieldValue(definition, raw);
+      if (!value) {
+        return;
+      }
+
+      const isValid = validateFieldValue({ ...definition, required: false }, value) === null;
+      const written = findAdjacentWrittenAmount(text, writtenAmounts, match.start, match.end);
+      const writtenAmount = written && {
+        text: written.text,
+        cents: written.cents,
+        agrees: normalized?.type === 'money' && normalized.cents === written.cents
+      };
+      const candidate: ExtractionCandidate = {
+        fieldId: definition.id,
+        value,
+        normalized,
+        text: raw,
+        start: match.start,
+        end: match.end,
+        context: getContext(text, match.start, match.end),
+        writtenAmount,
+        score: clampScore(
+          rule.confidence -
+          ruleIndex * RULE_ORDER_PENALTY -
+          occurrence * OCCURRENCE_PENALTY -
+          (isValid ? 0 : INVALID_VALUE_PENALTY) +
+          (writtenAmount?.agrees ? WRITTEN_AMOUNT_BONUS : 0)
+        ),
+        ruleIndex,
+        ruleKind: rule.kind
+      };
+
+      const existing = byValue.get(value);
+      if (!existing || existing.score < candidate.score) {
+        byValue.set(value, candidate);
+      }
+    });
+  });
+
+  return Array.from(byValue.values())
+    .sort((a, b) => b.score - a.score || a.start - b.start)
+    .slice(0, maxCandidates);
+};
+
+// Candidates for every field of `schema`, keyed by field ID. Fields without
+// any candidate map to an empty list.
+export const extractCandidates = (
+  text: string,
+  schema: FieldDefinition[],
+  maxCandidates: number = DEFAULT_MAX_CANDIDATES
+): Record<string, ExtractionCandidate[]> =>
+  Object.fromEntries(schema.map(definition => [definition.id, extractFieldCandidates(text, definition, maxCandidates)]));
@@ -0,0 +1,98 @@
+import type { PageResult } from '@/utils/pdfProcessor';
+import { buildTextIndex, ExtractedField, FieldCandidate, locateSource } from '@/utils/fieldProvenance';
+import { FieldDefinition } from '@/utils/fieldSchema';
+import { extractCandidates } from '@/utils/extractionEngine';
+import { formatCents, normalizeFieldValue } from '@/utils/normalizers';
+
+// A figure that agrees with the amount written out in words next to it has
+// been read twice, so it is trusted at least this much
+const AGREEING_AMOUNT_CONFIDENCE = 95;
+
+// Run the extraction engine over `text` and return every field that was
+// found, in schema order, set to its best candidate. All candidates are
+// kept with their source in the document so the reviewer can pick another.
+export const extractFieldsFromText = (
+  text: string,
+  pages: PageResult[],
+  schema: FieldDefinition[]
+): ExtractedField[] => {
+  const textIndex = buildTextIndex(text, pages);
+  const candidates = extractCandidates(text, schema);
+
+  return schema.flatMap(definition => {
+    // Confidence comes from the OCR words a value was read from; the
+    // candidate's score only applies when they cannot be located, e.g.
+    // after edits
+    const fieldCandidates = candidates[definition.id].map((candidate): FieldCandidate => {
+      const located = locateSource(textIndex, candidate.start, candidate.end);
+      const confidence = located?.confidence ?? candidate.score;
+      const { writtenAmount } = candidate;
+      return {
+        value: candidate.value,
+        normalized: candidate.normalized,
+        confidence: writtenAmount?.agrees ? Math.max(confidence, AGREEING_AMOUNT_CONFIDENCE) : confidence,
+        score: candidate.score,
+        originalText: candidate.text,
+        context: candidate.context,
+        source: located?.source,
+        writtenAmount: writtenAmount && { text: writtenAmount.text, cents: writtenAmount.cents }
+      };
+    });
+
+    const [best] = fieldCandidates;
+    if (!best) {
+      return [];
+    }
+    return [{
+      field: definition.id,
+      value: best.value,
+      normalized: best.normalized,
+      confidence: best.confidence,
+      originalText: best.originalText,
+      source: best.source,
+      writtenAmount: best.writtenAmount,
+      candidates: fieldCandidates
+    }];
+  });
+};
+
+// Put `fields` in schema order with an empty entry for every field that was
+// not found. Values of fields no longer in the schema are kept at the end.
+export const withSchemaFields = (fields: ExtractedField[], schema: FieldDefinition[]): ExtractedField[] => [
+  ...schema.map(definition =>
+    fields.find(f => f.field === definition.id) ?? {
+      field: definition.id,
+      value: "",
+      confidence: 0
+    }
+  ),
+  ...fields.filter(f => !schema.some(definition => definition.id === f.field))
+];
+
+// `field` set to a value the reviewer entered or picked, parsed by the
+// field's normalizer. The value itself is kept as entered.
+export const withFieldValue = (
+  field: ExtractedField,
+  definition: FieldDefinition | undefined,
+  value: string
+): ExtractedField => ({
+  ...field,
+  value,
+  normalized: normalizeFieldValue(definition, value).normalized
+});
+
+// Whether a money field's figure says the same as the amount written out in
+// words next to it. Null when there is nothing to compare or the reviewer
+// dismissed the check.
+export const checkWrittenAmount = (field: ExtractedField): 'agrees' | 'disagrees' | null => {
+  if (!field.writtenAmount || field.writtenAmount.dismissed) {
+    return null;
+  }
+  const cents = field.normalized?.type === 'money' ? field.normalized.cents : null;
+  return cents === field.writtenAmount.cents ? 'agrees' : 'disagrees';
+};
+
+export const describeWrittenAmount = (field: ExtractedField): string =>
+  field.writtenAmount
+    ? `"${field.writtenAmount.text.replace(/\s+/g, ' ')}" (${formatCents(field.writtenAmount.cents)})`
+    : '';
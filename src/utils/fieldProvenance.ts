@@ -0,0 +1,143 @@
+import type { BoundingBox, OCRWord, PageResult } from '@/utils/pdfProcessor';
+import { unionBoxes } from '@/utils/boundingBox';
+import type { NormalizedValue } from '@/utils/normalizers';
+
+// Where in the document an extracted value was read from
+export interface FieldSource {
+  pageNumber: number;
+  // Character offsets into the extracted text the field was matched in.
+  // Not set for values read from a region drawn by the reviewer.
+  start?: number;
+  end?: number;
+  // Union of the source words' boxes, in pixels at `renderScale`
+  bbox: BoundingBox | null;
+  renderScale: number;
+  // Name of the TESSERACT_PRESETS entry a hand-drawn region was read with
+  regionPreset?: string;
+}
+
+// Amount written out in words next to a money field's figure. The figure
+// is checked against it until the reviewer dismisses the check.
+export interface WrittenAmountCheck {
+  text: string;
+  cents: number;
+  dismissed?: boolean;
+}
+
+// One of the values the extractor found for a field
+export interface FieldCandidate {
+  value: string;
+  normalized?: NormalizedValue | null;
+  confidence: number;
+  // How likely the extractor rated this value, 0-100; candidates are
+  // ordered by it
+  score: number;
+  originalText: string;
+  // Text around the value in the document
+  context: { before: string; after: string };
+  source?: FieldSource;
+  writtenAmount?: WrittenAmountCheck;
+}
+
+export interface ExtractedField {
+  // ID of the field's FieldDefinition in the field schema
+  field: string;
+  // Canonical text of the value, e.g. "$1,250,000.00" or "2025-03-03"
+  value: string;
+  // The value parsed by the field's normalizer: cents, ISO date or
+  // canonical name. Null when the value could not be parsed.
+  normalized?: NormalizedValue | null;
+  confidence: number;
+  // The text the value was read from, exactly as it appears in the document
+  originalText?: string;
+  source?: FieldSource;
+  writtenAmount?: WrittenAmountCheck;
+  // Every value found for the field, best first. The field starts out with
+  // the first one; the reviewer can switch to any other.
+  candidates?: FieldCandidate[];
+}
+
+interface WordSpan {
+  start: number;
+  end: number;
+  pageNumber: number;
+  renderScale: number;
+  word: OCRWord;
+}
+
+export interface TextIndex {
+  spans: WordSpan[];
+}
+
+const PAGE_MARKER = /^--- Page (\d+)(?: \([^\n]*\))? ---$/gm;
+
+// How far ahead of the previous word the next one may appear. Words the
+// reviewer edited away are skipped instead of latching onto a later
+// occurrence of the same text.
+const MAX_WORD_GAP = 64;
+
+// Locate every recognized word in `text`, which is the joined page text as
+// produced by joinPageText and possibly edited by the reviewer since. Words
+// are matched in reading order within their page's section, so edits only
+// lose the position of the words that were actually changed.
+export const buildTextIndex = (text: string, pages: PageResult[]): TextIndex => {
+  const markers = Array.from(text.matchAll(PAGE_MARKER));
+  const spans: WordSpan[] = [];
+
+  markers.forEach((marker, markerIndex) => {
+    const pageNumber = Number(marker[1]);
+    const page = pages.find(candidate => candidate.pageNumber === pageNumber);
+    if (!page) {
+      return;
+    }
+
+    const sectionEnd = markerIndex + 1 < markers.length ? markers[markerIndex + 1].index : text.length;
+    let cursor = marker.index + marker[0].length;
+
+    for (const word of page.words) {
+      const at = text.indexOf(word.text, cursor);
+      if (at === -1 || at + word.text.length > sectionEnd || at - cursor > MAX_WORD_GAP) {
+        continue;
+      }
+
+      spans.push({
+        start: at,
+        end: at + word.text.length,
+        pageNumber,
+        renderScale: page.renderScale,
+        word
+      });
+      cursor = at + word.text.length;
+    }
+  });
+
+  return { spans };
+};
+
+// Resolve a character range of the extracted text back to the words it was
+// read from. The field's confidence is that of its weakest word, since a
+// single misread digit is enough to make a value wrong.
+export const locateSource = (
+  index: TextIndex,
+  start: number,
+  end: number
+): { source: FieldSource; confidence: number } | null => {
+  const overlapping = index.spans.filter(span => span.start < end && span.end > start);
+  if (overlapping.length === 0) {
+    return null;
+  }
+
+  const { pageNumber, renderScale } = overlapping[0];
+  const pageWords = overlapping.filter(span => span.pageNumber === pageNumber);
+
+  return {
+    source: {
+      pageNumber,
+      start,
+      end,
+      bbox: unionBoxes(pageWords.map(span => span.word.bbox)),
+      renderScale
+    },
+    confidence: Math.round(Math.min(...pageWords.map(span => span.word.confidence)))
+  };
+};
@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_FIELD_SCHEMA, ExtractionRule, FieldDefinition, getFieldDefinition, loadFieldSchema, saveFieldSchema } from '@/utils/fieldSchema';
+
+const storage = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => storage.set(key, value),
+  removeItem: (key: string) => storage.delete(key)
+});
+
+const builtIn = (id: string) => getFieldDefinition(DEFAULT_FIELD_SCHEMA, id)!;
+
+// Buyer Name as it was saved before names were normalized
+const unversionedBuyerName: FieldDefinition = {
+  ...builtIn('buyerName'),
+  normalizer: 'trim',
+  rules: [{ pattern: '(?:buyer|purchaser)[:\\s]+([^\\n\\r]+)', flags: 'i', confidence: 80 } as ExtractionRule]
+};
+
+// Closing Date as it was saved when only MM/DD/YYYY dates were read
+const unversionedClosingDate: FieldDefinition = {
+  ...builtIn('closingDate'),
+  rules: [{ kind: 'regex', pattern: '(?:closing date|settlement date)[:\\s]*(\\d{1,2}\\/\\d{1,2}\\/\\d{4})', flags: 'i', confidence: 75 }]
+};
+
+describe('loadFieldSchema', () => {
+  beforeEach(() => storage.clear());
+
+  it('moves built-in fields saved before versioning on to the current defaults', () => {
+    storage.set('fieldSchema', JSON.stringify([unversionedBuyerName, unversionedClosingDate]));
+
+    const schema = loadFieldSchema();
+    expect(getFieldDefinition(schema, 'buyerName')).toEqual(builtIn('buyerName'));
+    expect(getFieldDefinition(schema, 'closingDate')).toEqual(builtIn('closingDate'));
+  });
+
+  it('keeps built-in fields that were edited before versioning', () => {
+    const edited = { ...unversionedBuyerName, label: 'Purchaser' };
+    storage.set('fieldSchema', JSON.stringify([edited]));
+
+    expect(getFieldDefinition(loadFieldSchema(), 'buyerName')).toEqual({
+      ...edited,
+      rules: [{ ...edited.rules[0], kind: 'regex' }]
+    });
+  });
+
+  it('keeps fields saved by the current version as they are', () => {
+    const custom: FieldDefinition = {
+      id: 'titleCompany',
+      label: 'Title Company',
+      type: 'text',
+      required: false,
+      input: 'text',
+      normalizer: 'trim',
+      rules: [{ kind: 'anchor', pattern: 'title company', flags: 'i', offset: 0, length: 3, confidence: 70 }],
+      exportColumn: 'Title Company'
+    };
+    saveFieldSchema([unversionedBuyerName, custom]);
+
+    const schema = loadFieldSchema();
+    expect(getFieldDefinition(schema, 'buyerName')?.normalizer).toBe('trim');
+    expect(getFieldDefinition(schema, 'titleCompany')).toEqual(custom);
+    expect(schema).toHaveLength(DEFAULT_FIELD_SCHEMA.length + 1);
+  });
+
+  it('falls back to the defaults when nothing usable is saved', () => {
+    storage.set('fieldSchema', JSON.stringify({ version: 1, fields: [{ id: 'broken' }] }));
+
+    expect(loadFieldSchema()).toEqual(DEFAULT_FIELD_SCHEMA);
+  });
+});
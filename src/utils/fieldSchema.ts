@@ -0,0 +1,371 @@
+import { parseDate, parseMoney } from '@/utils/normalizers';
+
+// Declarative description of the fields read from every contract. The schema
+// drives extraction, the review form, validation and the CSV export, and can
+// be extended from the settings screen; it is kept in localStorage.
+
+export type FieldType = 'text' | 'money' | 'date';
+
+// Widget the field is edited with on the review screen
+export type FieldInput = 'text' | 'textarea' | 'date';
+
+// How matched text is turned into the field's value: money into cents,
+// dates into ISO dates, names into canonical form and legal descriptions
+// into their parts. See normalizers.
+export type FieldNormalizer = 'none' | 'trim' | 'money' | 'date' | 'name' | 'legalDescription';
+
+// How a rule finds values. See extractionEngine for what each kind reads.
+export type RuleKind = 'regex' | 'anchor' | 'lineAfterLabel' | 'tableCell';
+
+export interface ExtractionRule {
+  kind: RuleKind;
+  // RegExp source. For 'regex' rules it matches the value itself, with the
+  // first capture group as the value if there is one; every other kind
+  // uses it to find the label or anchor the value sits next to.
+  pattern: string;
+  flags: string;
+  // 'anchor': words skipped after the anchor. 'tableCell': cells to the
+  // right of the label cell, 1 when not set.
+  offset?: number;
+  // 'anchor': words taken as the value, 1 when not set
+  length?: number;
+  // Score of the rule's first match; also used as the confidence when the
+  // OCR words the value was read from cannot be located
+  confidence: number;
+}
+
+export interface FieldDefinition {
+  id: string;
+  label: string;
+  type: FieldType;
+  required: boolean;
+  input: FieldInput;
+  normalizer: FieldNormalizer;
+  // Earlier rules score higher when several match
+  rules: ExtractionRule[];
+  exportColumn: string;
+  // Built-in fields can be edited but not removed
+  builtIn?: boolean;
+}
+
+const ADDRESS_SUFFIX = '(?:street|st|avenue|ave|road|rd|drive|dr|lane|ln|blvd|boulevard)';
+const AMOUNT = '\\$?([\\d,]+(?:\\.\\d{2})?)';
+// A figure, or a figure in brackets after the amount written out in words:
+// "Five Thousand and 00/100 Dollars ($5,000.00)"
+const STATED_AMOUNT = `(?:[a-z][a-z\\s,.-]*?(?:\\d{1,2}\\s*\\/\\s*100\\s+)?dollars?\\s*\\(\\s*)?${AMOUNT}`;
+// The rest of a paragraph: following lines up to a blank line or a line
+// that starts with another label such as "Purchase Price:"
+const PARAGRAPH_REST = '(?:\\r?\\n(?![ \\t]*\\r?\\n|[ \\t]*[A-Z][A-Za-z ]{1,30}:)[^\\n\\r]+)*';
+const MONTH = '(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?';
+const ORDINAL_DAY = '\\d{1,2}(?:st|nd|rd|th)?';
+// 03/03/2025, 2025-03-03, March 3rd, 2025, 3-Mar-25 and the 3rd day of
+// March, 2025
+const DATE = '(' + [
+  '\\d{1,2}[\\/-]\\d{1,2}[\\/-](?:\\d{4}|\\d{2})\\b',
+  '\\d{4}-\\d{2}-\\d{2}',
+  `${MONTH}\\s+${ORDINAL_DAY},?\\s+\\d{4}`,
+  `(?:th(?:e|is)\\s+)?${ORDINAL_DAY}\\s+day\\s+of\\s+${MONTH},?\\s+\\d{4}`,
+  `${ORDINAL_DAY}[\\s-]${MONTH}[\\s,-]+(?:\\d{4}|\\d{2})\\b`
+].join('|') + ')';
+
+export const DEFAULT_FIELD_SCHEMA: FieldDefinition[] = [
+  {
+    id: 'propertyAddress',
+    label: 'Property Address',
+    type: 'text',
+    required: true,
+    input: 'text',
+    normalizer: 'trim',
+    rules: [
+      { kind: 'regex', pattern: `(?:property|subject property|premises|located at|address)[:\\s]+([^\\n\\r]+${ADDRESS_SUFFIX}[^\\n\\r]*)`, flags: 'i', confidence: 85 },
+      { kind: 'regex', pattern: `(\\d+\\s+[^\\n\\r]+${ADDRESS_SUFFIX}[^\\n\\r]*)`, flags: 'i', confidence: 85 }
+    ],
+    exportColumn: 'Property Address',
+    builtIn: true
+  },
+  {
+    id: 'legalDescription',
+    label: 'Legal Description',
+    type: 'text',
+    required: true,
+    input: 'textarea',
+    normalizer: 'legalDescription',
+    rules: [
+      { kind: 'regex', pattern: `legal description[:\\s]+([^\\n\\r]+${PARAGRAPH_REST})`, flags: 'i', confidence: 80 },
+      // Lot and block of a recorded plat
+      { kind: 'regex', pattern: `((?:all of\\s+)?lots?\\s+\\w+[^\\n\\r]*\\bblock\\b[^\\n\\r]*${PARAGRAPH_REST})`, flags: 'i', confidence: 75 },
+      // Metes and bounds, abstract and survey or section-township-range
+      { kind: 'regex', pattern: `((?:all\\s+)?(?:that certain|being (?:a|all|part))\\s+(?:[\\d.]+\\s+acre\\s+)?(?:tract|parcel|lot)\\b[^\\n\\r]*${PARAGRAPH_REST})`, flags: 'i', confidence: 70 },
+      { kind: 'regex', pattern: `([^\\n\\r]*\\bsection\\s+\\d+,?\\s+township\\s+\\d+[^\\n\\r]*${PARAGRAPH_REST})`, flags: 'i', confidence: 70 }
+    ],
+    exportColumn: 'Legal Description',
+    builtIn: true
+  },
+  {
+    id: 'buyerName',
+    label: 'Buyer Name',
+    type: 'text',
+    required: true,
+    input: 'text',
+    normalizer: 'name',
+    rules: [
+      { kind: 'regex', pattern: '(?:buyer|purchaser)[:\\s]+([^\\n\\r]+)', flags: 'i', confidence: 80 },
+      // Forms that put the name on the line below its label
+      { kind: 'lineAfterLabel', pattern: '^\\s*(?:buyer|purchaser)\\s*:?\\s*$', flags: 'im', confidence: 75 }
+    ],
+    exportColumn: 'Buyer',
+    builtIn: true
+  },
+  {
+    id: 'sellerName',
+    label: 'Seller Name',
+    type: 'text',
+    required: true,
+    input: 'text',
+    normalizer: 'name',
+    rules: [
+      { kind: 'regex', pattern: '(?:seller|vendor)[:\\s]+([^\\n\\r]+)', flags: 'i', confidence: 80 },
+      { kind: 'lineAfterLabel', pattern: '^\\s*(?:seller|vendor)\\s*:?\\s*$', flags: 'im', confidence: 75 }
+    ],
+    exportColumn: 'Seller',
+    builtIn: true
+  },
+  {
+    id: 'purchasePrice',
+    label: 'Purchase Price',
+    type: 'money',
+    required: true,
+    input: 'text',
+    normalizer: 'money',
+    rules: [
+      { kind: 'regex', pattern: `(?:purchase price|sale price|total price)[:\\s]*${STATED_AMOUNT}`, flags: 'i', confidence: 90 },
+      // Price schedules laid out as a table
+      { kind: 'tableCell', pattern: '^(?:purchase|sale|total) price$', flags: 'i', confidence: 85 },
+      // Any dollar amount at all, so a price without a label is still offered
+      { kind: 'regex', pattern: `\\$\\s*([\\d,]+(?:\\.\\d{2})?)`, flags: '', confidence: 50 }
+    ],
+    exportColumn: 'Purchase Price',
+    builtIn: true
+  },
+  {
+    id: 'earnestMoney',
+    label: 'Earnest Money',
+    type: 'money',
+    required: true,
+    input: 'text',
+    normalizer: 'money',
+    rules: [
+      { kind: 'regex', pattern: `(?:earnest money|deposit)[:\\s]*${STATED_AMOUNT}`, flags: 'i', confidence: 85 },
+      { kind: 'tableCell', pattern: '^earnest money(?: deposit)?$', flags: 'i', confidence: 80 }
+    ],
+    exportColumn: 'Earnest Money',
+    builtIn: true
+  },
+  {
+    id: 'executionDate',
+    label: 'Execution Date',
+    type: 'date',
+    required: true,
+    input: 'date',
+    normalizer: 'date',
+    rules: [
+      { kind: 'regex', pattern: `(?:execution date|signed)[:\\s]*(?:on\\s+)?${DATE}`, flags: 'i', confidence: 75 }
+    ],
+    exportColumn: 'Execution Date',
+    builtIn: true
+  },
+  {
+    id: 'closingDate',
+    label: 'Closing Date',
+    type: 'date',
+    required: true,
+    input: 'date',
+    normalizer: 'date',
+    rules: [
+      { kind: 'regex', pattern: `(?:closing date|settlement date)[:\\s]*(?:on\\s+(?:or\\s+before\\s+)?)?${DATE}`, flags: 'i', confidence: 75 }
+    ],
+    exportColumn: 'Closing Date',
+    builtIn: true
+  }
+];
+
+// Input and normalizer a new field of each type starts out with
+export const FIELD_TYPE_DEFAULTS: Record<FieldType, Pick<FieldDefinition, 'input' | 'normalizer'>> = {
+  text: { input: 'text', normalizer: 'trim' },
+  money: { input: 'text', normalizer: 'money' },
+  date: { input: 'date', normalizer: 'date' }
+};
+
+const SCHEMA_STORAGE_KEY = 'fieldSchema';
+
+const FIELD_TYPES: FieldType[] = ['text', 'money', 'date'];
+const FIELD_INPUTS: FieldInput[] = ['text', 'textarea', 'date'];
+const FIELD_NORMALIZERS: FieldNormalizer[] = ['none', 'trim', 'money', 'date', 'name', 'legalDescription'];
+export const RULE_KINDS: RuleKind[] = ['regex', 'anchor', 'lineAfterLabel', 'tableCell'];
+
+// Rules saved before there were several kinds have no `kind` and are regexes
+const isRule = (value: unknown): value is ExtractionRule => {
+  const rule = value as ExtractionRule;
+  return !!rule && typeof rule.pattern === 'string' && typeof rule.flags === 'string' &&
+    typeof rule.confidence === 'number' && (rule.kind === undefined || RULE_KINDS.includes(rule.kind));
+};
+
+const isFieldDefinition = (value: unknown): value is FieldDefinition => {
+  const field = value as FieldDefinition;
+  return !!field &&
+    typeof field.id === 'string' && field.id !== '' &&
+    typeof field.label === 'string' &&
+    FIELD_TYPES.includes(field.type) &&
+    typeof field.required === 'boolean' &&
+    FIELD_INPUTS.includes(field.input) &&
+    FIELD_NORMALIZERS.includes(field.normalizer) &&
+    Array.isArray(field.rules) && field.rules.every(isRule) &&
+    typeof field.exportColumn === 'string';
+};
+
+// Bumped whenever a built-in field's default definition changes, with the
+// definition it replaces added to PREVIOUS_DEFAULTS
+const SCHEMA_VERSION = 1;
+
+interface StoredFieldSchema {
+  version: number;
+  fields: FieldDefinition[];
+}
+
+const previousRule = (kind: RuleKind, pattern: string, flags: string, confidence: number): ExtractionRule =>
+  ({ kind, pattern, flags, confidence });
+
+// Rules of the built-in fields that have since changed
+const PREVIOUS_DATE = '(\\d{1,2}\\/\\d{1,2}\\/\\d{4})';
+const PREVIOUS_RULES = {
+  legalDescription: previousRule('regex', '(?:legal description[:\\s]+|(?=(?:lot|block)[:\\s]))([^\\n\\r]{20,})', 'i', 70),
+  buyerName: previousRule('regex', '(?:buyer|purchaser)[:\\s]+([^\\n\\r]+)', 'i', 80),
+  buyerNameBelow: previousRule('lineAfterLabel', '^\\s*(?:buyer|purchaser)\\s*:?\\s*$', 'im', 75),
+  sellerName: previousRule('regex', '(?:seller|vendor)[:\\s]+([^\\n\\r]+)', 'i', 80),
+  sellerNameBelow: previousRule('lineAfterLabel', '^\\s*(?:seller|vendor)\\s*:?\\s*$', 'im', 75),
+  purchasePrice: previousRule('regex', `(?:purchase price|sale price|total price)[:\\s]*${AMOUNT}`, 'i', 90),
+  purchasePriceTable: previousRule('tableCell', '^(?:purchase|sale|total) price$', 'i', 85),
+  anyDollarAmount: previousRule('regex', '\\$\\s*([\\d,]+(?:\\.\\d{2})?)', '', 90),
+  anyDollarAmountLowered: previousRule('regex', '\\$\\s*([\\d,]+(?:\\.\\d{2})?)', '', 50),
+  earnestMoney: previousRule('regex', `(?:earnest money|deposit)[:\\s]*${AMOUNT}`, 'i', 85),
+  earnestMoneyTable: previousRule('tableCell', '^earnest money(?: deposit)?$', 'i', 80),
+  executionDate: previousRule('regex', `(?:execution date|signed)[:\\s]*${PREVIOUS_DATE}`, 'i', 75),
+  closingDate: previousRule('regex', `(?:closing date|settlement date)[:\\s]*${PREVIOUS_DATE}`, 'i', 75)
+};
+
+// Normalizers and rules built-in fields had by default before the schema
+// was versioned, by field ID. A saved field that still has one of them was
+// never edited, so it is moved on to the current default.
+const PREVIOUS_DEFAULTS: Record<string, Pick<FieldDefinition, 'normalizer' | 'rules'>[]> = {
+  legalDescription: [{ normalizer: 'trim', rules: [PREVIOUS_RULES.legalDescription] }],
+  buyerName: [
+    { normalizer: 'trim', rules: [PREVIOUS_RULES.buyerName] },
+    { normalizer: 'trim', rules: [PREVIOUS_RULES.buyerName, PREVIOUS_RULES.buyerNameBelow] }
+  ],
+  sellerName: [
+    { normalizer: 'trim', rules: [PREVIOUS_RULES.sellerName] },
+    { normalizer: 'trim', rules: [PREVIOUS_RULES.sellerName, PREVIOUS_RULES.sellerNameBelow] }
+  ],
+  purchasePrice: [
+    { normalizer: 'money', rules: [PREVIOUS_RULES.purchasePrice, PREVIOUS_RULES.anyDollarAmount] },
+    {
+      normalizer: 'money',
+      rules: [PREVIOUS_RULES.purchasePrice, PREVIOUS_RULES.purchasePriceTable, PREVIOUS_RULES.anyDollarAmount]
+    },
+    {
+      normalizer: 'money',
+      rules: [PREVIOUS_RULES.purchasePrice, PREVIOUS_RULES.purchasePriceTable, PREVIOUS_RULES.anyDollarAmountLowered]
+    }
+  ],
+  earnestMoney: [
+    { normalizer: 'money', rules: [PREVIOUS_RULES.earnestMoney] },
+    { normalizer: 'money', rules: [PREVIOUS_RULES.earnestMoney, PREVIOUS_RULES.earnestMoneyTable] }
+  ],
+  executionDate: [{ normalizer: 'date', rules: [PREVIOUS_RULES.executionDate] }],
+  closingDate: [{ normalizer: 'date', rules: [PREVIOUS_RULES.closingDate] }]
+};
+
+// Rules compared by what they do, whatever order their keys were saved in
+const describeRules = (rules: ExtractionRule[]) =>
+  JSON.stringify(rules.map(rule => [rule.kind ?? 'regex', rule.pattern, rule.flags, rule.confidence, rule.offset, rule.length]));
+
+const isPreviousDefault = (field: FieldDefinition, current: FieldDefinition): boolean =>
+  field.label === current.label &&
+  field.type === current.type &&
+  field.required === current.required &&
+  field.input === current.input &&
+  field.exportColumn === current.exportColumn &&
+  (PREVIOUS_DEFAULTS[field.id] ?? []).some(previous =>
+    previous.normalizer === field.normalizer && describeRules(previous.rules) === describeRules(field.rules)
+  );
+
+// Saved fields brought up to date: rules saved before there were several
+// kinds become regex rules and built-in fields saved by an older version
+// that were never edited become the current default
+const upgradeFields = (fields: FieldDefinition[], version: number): FieldDefinition[] =>
+  fields.map(field => {
+    const current = getFieldDefinition(DEFAULT_FIELD_SCHEMA, field.id);
+    if (current && version < SCHEMA_VERSION && isPreviousDefault(field, current)) {
+      return current;
+    }
+    return { ...field, rules: field.rules.map(rule => ({ ...rule, kind: rule.kind ?? 'regex' })) };
+  });
+
+// The saved schema, falling back to the defaults when nothing usable is
+// saved. Built-in fields that are missing are added back. Schemas saved
+// before it was versioned are a bare list of fields.
+export const loadFieldSchema = (): FieldDefinition[] => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(SCHEMA_STORAGE_KEY) ?? 'null');
+    const { version, fields } = (Array.isArray(stored) ? { version: 0, fields: stored } : stored ?? {}) as
+      Partial<StoredFieldSchema>;
+    if (typeof version !== 'number' || !Array.isArray(fields) || !fields.every(isFieldDefinition)) {
+      return DEFAULT_FIELD_SCHEMA;
+    }
+    const missing = DEFAULT_FIELD_SCHEMA.filter(field => !fields.some(saved => saved.id === field.id));
+    return [...upgradeFields(fields, version), ...missing];
+  } catch (error) {
+    console.warn("Ignoring unreadable field schema:", error);
+    return DEFAULT_FIELD_SCHEMA;
+  }
+};
+
+export const saveFieldSchema = (schema: FieldDefinition[]) => {
+  const stored: StoredFieldSchema = { version: SCHEMA_VERSION, fields: schema };
+  localStorage.setItem(SCHEMA_STORAGE_KEY, JSON.stringify(stored));
+};
+
+export const resetFieldSchema = () => {
+  localStorage.removeItem(SCHEMA_STORAGE_KEY);
+};
+
+// Derive an ID for a new field from its label that no other field uses
+export const createFieldId = (label: string, schema: FieldDefinition[]): string => {
+  const words = label.toLowerCase().match(/[a-z0-9]+/g) ?? ['field'];
+  const base = words.map((word, index) => (index === 0 ? word : word[0].toUpperCase() + word.slice(1))).join('');
+  let id = base;
+  for (let suffix = 2; schema.some(field => field.id === id); suffix++) {
+    id = `${base}${suffix}`;
+  }
+  return id;
+};
+
+export const getFieldDefinition = (schema: FieldDefinition[], fieldId: string): FieldDefinition | undefined =>
+  schema.find(field => field.id === fieldId);
+
+// Resolves to a message describing what is wrong with `value`, or null
+export const validateFieldValue = (definition: FieldDefinition | undefined, value: string): string | null => {
+  if (!definition) {
+    return null;
+  }
+  if (!value.trim()) {
+    return definition.required ? `${definition.label} is required` : null;
+  }
+  if (definition.type === 'money' && parseMoney(value) === null) {
+    return `${definition.label} must be an amount such as $1,250,000.00`;
+  }
+  if (definition.type === 'date' && parseDate(value) === null) {
+    return `${definition.label} must be a valid date such as 03/03/2025`;
+  }
+  return null;
+};
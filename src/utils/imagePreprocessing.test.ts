@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { estimateSkew, otsuThreshold, preprocessCanvas, PreprocessingConfig, unrotateBox } from '@/utils/imagePreprocessing';
+
+// A grey image filled by `shade`, which gives the level at each pixel
+const grayImage = (width: number, height: number, shade: (x: number, y: number) => number) => {
+  const gray = new Uint8ClampedArray(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      gray[y * width + x] = shade(x, y);
+    }
+  }
+  return gray;
+};
+
+// Run the canvas steps on a grey image and read the result back as grey
+const preprocessGray = (gray: Uint8ClampedArray, width: number, height: number, config: PreprocessingConfig) => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  gray.forEach((value, index) => data.set([value, value, value, 255], index * 4));
+  const context = {
+    getImageData: () => ({ data }),
+    putImageData: () => {}
+  };
+  const canvas = { width, height, getContext: () => context } as unknown as HTMLCanvasElement;
+
+  const result = preprocessCanvas(canvas, config);
+  return { ...result, gray: grayImage(width, height, (x, y) => data[(y * width + x) * 4]) };
+};
+
+describe('otsuThreshold', () => {
+  it('splits a bimodal histogram between its peaks', () => {
+    // Ink around 50 and paper around 200, a quarter of the pixels inked
+    const gray = grayImage(100, 40, (x, y) => (x < 25 ? 45 : 195) + ((x + y) % 11));
+
+    const threshold = otsuThreshold(gray);
+    expect(threshold).toBeGreaterThanOrEqual(55);
+    expect(threshold).toBeLessThan(195);
+  });
+});
+
+describe('preprocessCanvas', () => {
+  it('keeps text under uneven lighting with Sauvola binarization', () => {
+    // Paper that brightens from 120 to 240 across the page, with two
+    // strokes 100 levels darker than the paper around them
+    const width = 120;
+    const height = 60;
+    const isStroke = (y: number) => (y >= 20 && y < 23) || (y >= 40 && y < 43);
+    const gray = grayImage(width, height, (x, y) => 120 + x - (isStroke(y) ? 100 : 0));
+
+    const { gray: output, steps } = preprocessGray(gray, width, height, { binarization: 'sauvola' });
+    expect(steps).toEqual(['sauvola']);
+    for (const x of [0, 60, 119]) {
+      expect(output[21 * width + x]).toBe(0);
+      expect(output[41 * width + x]).toBe(0);
+      expect(output[5 * width + x]).toBe(255);
+      expect(output[31 * width + x]).toBe(255);
+    }
+  });
+
+  it('whitens dark bands along the page edges and keeps the text inside', () => {
+    const size = 100;
+    const gray = grayImage(size, size, (x, y) => {
+      if (x < 5 || y < 3) return 0;
+      return y >= 50 && y < 52 && x >= 20 && x < 80 ? 0 : 255;
+    });
+
+    const { gray: output, steps } = preprocessGray(gray, size, size, { removeBorders: true });
+    expect(steps).toEqual(['borders']);
+    expect(output[50 * size + 2]).toBe(255);
+    expect(output[1 * size + 50]).toBe(255);
+    expect(output[50 * size + 50]).toBe(0);
+  });
+
+  it('leaves a page without borders alone', () => {
+    const size = 100;
+    const gray = grayImage(size, size, (x, y) => (y >= 50 && y < 52 && x >= 20 && x < 80 ? 0 : 255));
+
+    const { gray: output, steps } = preprocessGray(gray, size, size, { removeBorders: true });
+    expect(steps).toEqual([]);
+    expect(output).toEqual(gray);
+  });
+});
+
+describe('estimateSkew', () => {
+  // Lines of text drawn as dark bands that drop `degrees` across the page
+  const skewedLines = (width: number, height: number, degrees: number) => {
+    const slope = Math.tan((degrees * Math.PI) / 180);
+    return grayImage(width, height, (x, y) => {
+      const row = y - x * slope;
+      return row > 20 && row < height - 20 && ((row % 30) + 30) % 30 < 2 ? 0 : 255;
+    });
+  };
+
+  it('finds the angle text lines run at', () => {
+    expect(Math.abs(estimateSkew(skewedLines(400, 300, 2), 400, 300) - 2)).toBeLessThanOrEqual(0.25);
+    expect(Math.abs(estimateSkew(skewedLines(400, 300, -3.5), 400, 300) + 3.5)).toBeLessThanOrEqual(0.25);
+  });
+
+  it('reports no skew for a blank page', () => {
+    expect(estimateSkew(grayImage(100, 100, () => 255), 100, 100)).toBe(0);
+  });
+});
+
+describe('unrotateBox', () => {
+  const box = { x0: 10, y0: 20, x1: 30, y1: 40 };
+
+  it('returns the box unchanged when the image was not rotated', () => {
+    expect(unrotateBox(box, 0, 200, 100)).toBe(box);
+  });
+
+  it('maps a box back through a half turn', () => {
+    const original = unrotateBox(box, 180, 200, 100);
+    expect(original.x0).toBeCloseTo(170);
+    expect(original.y0).toBeCloseTo(60);
+    expect(original.x1).toBeCloseTo(190);
+    expect(original.y1).toBeCloseTo(80);
+  });
+
+  it('maps a box back through a quarter turn that swapped the dimensions', () => {
+    // The rotated image is 100 wide and 200 tall; its top left corner was
+    // the original's bottom left
+    const original = unrotateBox(box, 90, 200, 100, true);
+    expect(original.x0).toBeCloseTo(20);
+    expect(original.y0).toBeCloseTo(70);
+    expect(original.x1).toBeCloseTo(40);
+    expect(original.y1).toBeCloseTo(90);
+  });
+});
@@ -0,0 +1,389 @@
+import type { BoundingBox } from '@/utils/pdfProcessor';
+
+export type BinarizationMethod = 'none' | 'otsu' | 'sauvola';
+
+export interface PreprocessingConfig {
+  grayscale?: boolean;
+  binarization?: BinarizationMethod;
+  despeckle?: boolean;
+  deskew?: boolean;
+  removeBorders?: boolean;
+}
+
+export interface PreprocessingResult {
+  // Degrees the image was rotated by to straighten it, 0 if untouched
+  deskewAngle: number;
+  steps: string[];
+}
+
+// Deskew only searches small angles; anything larger is a rotated page,
+// not a skewed one
+const MAX_SKEW_DEGREES = 5;
+const SKEW_STEP_DEGREES = 0.25;
+// Below this the rotation would only blur the glyphs
+const MIN_SKEW_CORRECTION_DEGREES = 0.2;
+
+// Sauvola parameters tuned for ~300 DPI text. The window should span a few
+// character heights so local background is estimated around each glyph.
+const SAUVOLA_WINDOW = 31;
+const SAUVOLA_K = 0.34;
+const SAUVOLA_R = 128;
+
+// Scanner borders are bands along the edges that are mostly dark, and are
+// never expected to reach further into the page than this
+const BORDER_DARK_RATIO = 0.5;
+const MAX_BORDER_FRACTION = 0.1;
+
+const toGray = (data: Uint8ClampedArray, pixelCount: number): Uint8ClampedArray => {
+  const gray = new Uint8ClampedArray(pixelCount);
+  for (let i = 0; i < pixelCount; i++) {
+    const offset = i * 4;
+    gray[i] = 0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2];
+  }
+  return gray;
+};
+
+export const otsuThreshold = (gray: Uint8ClampedArray): number => {
+  const histogram = new Array<number>(256).fill(0);
+  for (let i = 0; i < gray.length; i++) {
+    histogram[gray[i]]++;
+  }
+
+  let totalSum = 0;
+  for (let level = 0; level < 256; level++) {
+    totalSum += level * histogram[level];
+  }
+
+  let backgroundSum = 0;
+  let backgroundCount = 0;
+  let bestThreshold = 127;
+  let bestVariance = -1;
+
+  for (let level = 0; level < 256; level++) {
+    backgroundCount += histogram[level];
+    if (backgroundCount === 0) continue;
+    const foregroundCount = gray.length - backgroundCount;
+    if (foregroundCount === 0) break;
+
+    backgroundSum += level * histogram[level];
+    const backgroundMean = backgroundSum / backgroundCount;
+    const foregroundMean = (totalSum - backgroundSum) / foregroundCount;
+    const variance = backgroundCount * foregroundCount * (backgroundMean - foregroundMean) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      bestThreshold = level;
+    }
+  }
+
+  return bestThreshold;
+};
+
+const binarizeOtsu = (gray: Uint8ClampedArray) => {
+  const threshold = otsuThreshold(gray);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = gray[i] > threshold ? 255 : 0;
+  }
+};
+
+// Sauvola thresholding adapts to uneven lighting and grey fax backgrounds
+// by comparing each pixel to the mean and spread of its neighbourhood,
+// computed in constant time per pixel from integral images
+const binarizeSauvola = (gray: Uint8ClampedArray, width: number, height: number) => {
+  const stride = width + 1;
+  const sums = new Float64Array(stride * (height + 1));
+  const squares = new Float64Array(stride * (height + 1));
+
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    let rowSquares = 0;
+    for (let x = 0; x < width; x++) {
+      const value = gray[y * width + x];
+      rowSum += value;
+      rowSquares += value * value;
+      sums[(y + 1) * stride + x + 1] = sums[y * stride + x + 1] + rowSum;
+      squares[(y + 1) * stride + x + 1] = squares[y * stride + x + 1] + rowSquares;
+    }
+  }
+
+  const half = Math.floor(SAUVOLA_WINDOW / 2);
+  const output = new Uint8ClampedArray(gray.length);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - half);
+    const y1 = Math.min(height, y + half + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - half);
+      const x1 = Math.min(width, x + half + 1);
+      const area = (x1 - x0) * (y1 - y0);
+      const sum = sums[y1 * stride + x1] - sums[y0 * stride + x1] - sums[y1 * stride + x0] + sums[y0 * stride + x0];
+      const squareSum = squares[y1 * stride + x1] - squares[y0 * stride + x1] - squares[y1 * stride + x0] + squares[y0 * stride + x0];
+      const mean = sum / area;
+      const deviation = Math.sqrt(Math.max(0, squareSum / area - mean * mean));
+      const threshold = mean * (1 + SAUVOLA_K * (deviation / SAUVOLA_R - 1));
+      output[y * width + x] = gray[y * width + x] > threshold ? 255 : 0;
+    }
+  }
+  gray.set(output);
+};
+
+// 3x3 median filter; removes isolated specks from fax noise and dust while
+// leaving strokes wider than a pixel intact
+const despeckle = (gray: Uint8ClampedArray, width: number, height: number) => {
+  const output = new Uint8ClampedArray(gray);
+  const window = new Array<number>(9);
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      let count = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          window[count++] = gray[(y + dy) * width + x + dx];
+        }
+      }
+      // Insertion sort is fastest for nine values
+      for (let i = 1; i < 9; i++) {
+        const value = window[i];
+        let j = i - 1;
+        while (j >= 0 && window[j] > value) {
+          window[j + 1] = window[j];
+          j--;
+        }
+        window[j + 1] = value;
+      }
+      output[y * width + x] = window[4];
+    }
+  }
+  gray.set(output);
+};
+
+// Whiten dark bands along the page edges left by scanner lids and
+// photocopies, working inward from each edge until a row or column is
+// mostly light
+const removeBorders = (gray: Uint8ClampedArray, width: number, height: number) => {
+  const threshold = otsuThreshold(gray);
+  const isDark = (index: number) => gray[index] <= threshold;
+
+  const darkRatioOfRow = (y: number) => {
+    let dark = 0;
+    for (let x = 0; x < width; x++) {
+      if (isDark(y * width + x)) dark++;
+    }
+    return dark / width;
+  };
+  const darkRatioOfColumn = (x: number) => {
+    let dark = 0;
+    for (let y = 0; y < height; y++) {
+      if (isDark(y * width + x)) dark++;
+    }
+    return dark / height;
+  };
+
+  const maxRows = Math.floor(height * MAX_BORDER_FRACTION);
+  const maxColumns = Math.floor(width * MAX_BORDER_FRACTION);
+
+  let top = 0;
+  while (top < maxRows && darkRatioOfRow(top) > BORDER_DARK_RATIO) top++;
+  let bottom = 0;
+  while (bottom < maxRows && darkRatioOfRow(height - 1 - bottom) > BORDER_DARK_RATIO) bottom++;
+  let left = 0;
+  while (left < maxColumns && darkRatioOfColumn(left) > BORDER_DARK_RATIO) left++;
+  let right = 0;
+  while (right < maxColumns && darkRatioOfColumn(width - 1 - right) > BORDER_DARK_RATIO) right++;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (y < top || y >= height - bottom || x < left || x >= width - right) {
+        gray[y * width + x] = 255;
+      }
+    }
+  }
+
+  return top + bottom + left + right > 0;
+};
+
+// Estimate skew with a projection profile: text lines produce the sharpest
+// row histogram of dark pixels when projected at the page's true angle.
+// The image is sampled sparsely since only the peak shape matters.
+export const estimateSkew = (gray: Uint8ClampedArray, width: number, height: number): number => {
+  const threshold = otsuThreshold(gray);
+  const sampleStep = Math.max(1, Math.floor(Math.min(width, height) / 600));
+  const darkPixels: number[] = [];
+  for (let y = 0; y < height; y += sampleStep) {
+    for (let x = 0; x < width; x += sampleStep) {
+      if (gray[y * width + x] <= threshold) {
+        darkPixels.push(x, y);
+      }
+    }
+  }
+  if (darkPixels.length === 0) {
+    return 0;
+  }
+
+  let bestAngle = 0;
+  let bestScore = -1;
+  // Projections shift by at most this much across the width of the page
+  const maxShift = width * Math.tan((MAX_SKEW_DEGREES * Math.PI) / 180);
+  const bins = new Float64Array(Math.ceil((height + 2 * maxShift) / sampleStep) + 1);
+
+  for (let angle = -MAX_SKEW_DEGREES; angle <= MAX_SKEW_DEGREES; angle += SKEW_STEP_DEGREES) {
+    const slope = Math.tan((angle * Math.PI) / 180);
+    bins.fill(0);
+    for (let i = 0; i < darkPixels.length; i += 2) {
+      const projected = darkPixels[i + 1] - darkPixels[i] * slope;
+      const bin = Math.floor((projected + maxShift) / sampleStep);
+      if (bin >= 0 && bin < bins.length) {
+        bins[bin]++;
+      }
+    }
+
+    let score = 0;
+    for (let i = 0; i < bins.length; i++) {
+      score += bins[i] * bins[i];
+    }
+    if (score > bestScore) {
+      bestScore = score;
+      bestAngle = angle;
+    }
+  }
+
+  return bestAngle;
+};
+
+// Rotate a canvas in place about its centre, filling exposed corners white.
+// With `swapDimensions` the canvas is resized for quarter turns.
+export const rotateCanvas = (canvas: HTMLCanvasElement, degrees: number, swapDimensions = false) => {
+  const source = document.createElement('canvas');
+  source.width = canvas.width;
+  source.height = canvas.height;
+  source.getContext('2d')!.drawImage(canvas, 0, 0);
+
+  if (swapDimensions) {
+    canvas.width = source.height;
+    canvas.height = source.width;
+  }
+
+  const context = canvas.getContext('2d')!;
+  context.save();
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.translate(canvas.width / 2, canvas.height / 2);
+  context.rotate((degrees * Math.PI) / 180);
+  context.drawImage(source, -source.width / 2, -source.height / 2);
+  context.restore();
+
+  source.width = 0;
+  source.height = 0;
+};
+
+// Map a box found on an image that was rotated about its centre by
+// `degrees` back onto the original image. `width` and `height` are the
+// original image's dimensions.
+export const unrotateBox = (
+  bbox: BoundingBox,
+  degrees: number,
+  width: number,
+  height: number,
+  swapDimensions = false
+): BoundingBox => {
+  if (degrees === 0) {
+    return bbox;
+  }
+
+  const radians = (-degrees * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const rotatedWidth = swapDimensions ? height : width;
+  const rotatedHeight = swapDimensions ? width : height;
+
+  const corners = [
+    [bbox.x0, bbox.y0],
+    [bbox.x1, bbox.y0],
+    [bbox.x0, bbox.y1],
+    [bbox.x1, bbox.y1],
+  ].map(([x, y]) => {
+    const dx = x - rotatedWidth / 2;
+    const dy = y - rotatedHeight / 2;
+    return [dx * cos - dy * sin + width / 2, dx * sin + dy * cos + height / 2];
+  });
+
+  return {
+    x0: Math.min(...corners.map(([x]) => x)),
+    y0: Math.min(...corners.map(([, y]) => y)),
+    x1: Math.max(...corners.map(([x]) => x)),
+    y1: Math.max(...corners.map(([, y]) => y)),
+  };
+};
+
+export const isPreprocessingEnabled = (config?: PreprocessingConfig): boolean =>
+  !!config && (
+    !!config.grayscale ||
+    (config.binarization ?? 'none') !== 'none' ||
+    !!config.despeckle ||
+    !!config.deskew ||
+    !!config.removeBorders
+  );
+
+// Clean up a rendered page before recognition. Steps run in a fixed order:
+// deskew first so later steps see straight edges, then border removal and
+// binarization, and despeckling last to clean up after thresholding.
+export const preprocessCanvas = (
+  canvas: HTMLCanvasElement,
+  config: PreprocessingConfig
+): PreprocessingResult => {
+  const result: PreprocessingResult = { deskewAngle: 0, steps: [] };
+  if (!isPreprocessingEnabled(config)) {
+    return result;
+  }
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    return result;
+  }
+
+  const { width, height } = canvas;
+  let imageData = context.getImageData(0, 0, width, height);
+  let gray = toGray(imageData.data, width * height);
+
+  if (config.deskew) {
+    const skew = estimateSkew(gray, width, height);
+    if (Math.abs(skew) >= MIN_SKEW_CORRECTION_DEGREES) {
+      rotateCanvas(canvas, -skew);
+      imageData = context.getImageData(0, 0, width, height);
+      gray = toGray(imageData.data, width * height);
+      result.deskewAngle = -skew;
+      result.steps.push(`deskew ${(-skew).toFixed(2)}°`);
+    }
+  }
+
+  if (config.removeBorders && removeBorders(gray, width, height)) {
+    result.steps.push('borders');
+  }
+
+  if (config.binarization === 'otsu') {
+    binarizeOtsu(gray);
+    result.steps.push('otsu');
+  } else if (config.binarization === 'sauvola') {
+    binarizeSauvola(gray, width, height);
+    result.steps.push('sauvola');
+  }
+
+  if (config.despeckle) {
+    despeckle(gray, width, height);
+    result.steps.push('despeckle');
+  }
+
+  if (config.grayscale) {
+    result.steps.push('grayscale');
+  }
+
+  const data = imageData.data;
+  for (let i = 0; i < gray.length; i++) {
+    const offset = i * 4;
+    data[offset] = gray[i];
+    data[offset + 1] = gray[i];
+    data[offset + 2] = gray[i];
+    data[offset + 3] = 255;
+  }
+  context.putImageData(imageData, 0, 0);
+
+  return result;
+};
@@ -0,0 +1,413 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist';
+import * as UTIF from 'utif2';
+import type { OCRLine } from '@/utils/pdfProcessor';
+import { openDocxSource } from '@/utils/docxAdapter';
+
+// Configure PDF.js worker
+pdfjsLib.GlobalWorkerOptions.workerSrc = '/node_modules/pdfjs-dist/build/pdf.worker.min.mjs';
+
+export type PasswordReason = 'required' | 'incorrect';
+
+// Asked for a password when a PDF is encrypted or the previous one was
+// wrong. Resolve to null to give up.
+export type PasswordCallback = (reason: PasswordReason) => Promise<string | null>;
+
+// The PDF is encrypted and no (correct) password was supplied
+export class PDFPasswordError extends Error {
+  constructor(public readonly reason: PasswordReason) {
+    super(reason === 'incorrect'
+      ? "The password for this PDF is incorrect."
+      : "This PDF is password-protected. Enter its password to open it.");
+    this.name = "PDFPasswordError";
+  }
+}
+
+// The PDF is encrypted with a scheme pdf.js cannot decrypt
+export class UnsupportedEncryptionError extends Error {
+  constructor() {
+    super("This PDF uses an encryption method that is not supported. Save an unencrypted copy and upload that instead.");
+    this.name = "UnsupportedEncryptionError";
+  }
+}
+
+// The file is not a readable PDF at all
+export class CorruptPDFError extends Error {
+  constructor() {
+    super("Failed to parse PDF. The file may be corrupted or not a PDF.");
+    this.name = "CorruptPDFError";
+  }
+}
+
+// Neither a PDF, a Word document nor one of the image formats the pipeline
+// can read
+export class UnsupportedFileTypeError extends Error {
+  constructor(type: string) {
+    super(`Unsupported file type: ${type || 'unknown'}. Please upload a PDF, DOCX, PNG, JPEG or TIFF file.`);
+    this.name = "UnsupportedFileTypeError";
+  }
+}
+
+// An image file that could not be decoded
+export class UnreadableImageError extends Error {
+  constructor(fileName: string) {
+    super(`Failed to read ${fileName}. The image may be corrupted or in an unsupported variant of its format.`);
+    this.name = "UnreadableImageError";
+  }
+}
+
+// A DOCX file whose archive or document XML could not be read
+export class UnreadableDocxError extends Error {
+  constructor(fileName: string) {
+    super(`Failed to read ${fileName}. The Word document may be corrupted, or saved in the older .doc format.`);
+    this.name = "UnreadableDocxError";
+  }
+}
+
+// Turn a pdf.js loading failure into one of the typed errors above.
+// Errors raised in the pdf.js worker arrive as plain objects tagged by name.
+const toPDFLoadError = (error: { name?: string; code?: number; message?: string }): Error => {
+  if (error?.name === 'PasswordException') {
+    return new PDFPasswordError(
+      error.code === pdfjsLib.PasswordResponses.INCORRECT_PASSWORD ? 'incorrect' : 'required'
+    );
+  }
+  if (/encryption|crypt/i.test(error?.message ?? '')) {
+    return new UnsupportedEncryptionError();
+  }
+  return new CorruptPDFError();
+};
+
+export interface LoadPDFOptions {
+  password?: string;
+  onPassword?: PasswordCallback;
+}
+
+// Open a PDF with the worker configured above. pdf.js takes ownership of
+// the buffer, so callers must not reuse it. Rejects with PDFPasswordError,
+// UnsupportedEncryptionError or CorruptPDFError.
+export const loadPDFDocument = (
+  data: ArrayBuffer,
+  { password, onPassword }: LoadPDFOptions = {}
+): Promise<PDFDocumentProxy> =>
+  new Promise((resolve, reject) => {
+    const loadingTask = pdfjsLib.getDocument({ data, password });
+
+    if (onPassword) {
+      // pdf.js calls this again with INCORRECT_PASSWORD until it gets the
+      // right one or the task is destroyed
+      loadingTask.onPassword = (updatePassword: (password: string) => void, code: number) => {
+        const reason: PasswordReason = code === pdfjsLib.PasswordResponses.INCORRECT_PASSWORD ? 'incorrect' : 'required';
+        onPassword(reason)
+          .then((nextPassword) => {
+            if (nextPassword === null) {
+              reject(new PDFPasswordError(reason));
+              loadingTask.destroy();
+              return;
+            }
+            updatePassword(nextPassword);
+          })
+          .catch((error) => {
+            reject(error);
+            loadingTask.destroy();
+          });
+      };
+    }
+
+    loadingTask.promise.then(resolve, (error) => {
+      console.error("PDF parsing error:", error);
+      reject(toPDFLoadError(error));
+    });
+  });
+
+export type DocumentKind = 'pdf' | 'docx' | 'image' | 'tiff';
+
+// Value for the `accept` attribute of file inputs
+export const SUPPORTED_FILE_ACCEPT = '.pdf,.docx,.png,.jpg,.jpeg,.tif,.tiff';
+
+const KIND_BY_MIME_TYPE: Record<string, DocumentKind> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'image/png': 'image',
+  'image/jpeg': 'image',
+  'image/tiff': 'tiff'
+};
+
+const KIND_BY_EXTENSION: Record<string, DocumentKind> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  png: 'image',
+  jpg: 'image',
+  jpeg: 'image',
+  tif: 'tiff',
+  tiff: 'tiff'
+};
+
+// Browsers leave the MIME type empty for some files, TIFFs in particular,
+// so fall back to the extension
+export const getDocumentKind = (file: File): DocumentKind | null => {
+  if (file.type in KIND_BY_MIME_TYPE) {
+    return KIND_BY_MIME_TYPE[file.type];
+  }
+  if (file.type) {
+    return null;
+  }
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  return KIND_BY_EXTENSION[extension] ?? null;
+};
+
+export interface RenderHandle {
+  promise: Promise<void>;
+  cancel: () => void;
+}
+
+// One page of an input document, whatever its format
+export interface SourcePage {
+  pageNumber: number;
+  // Page size at scale 1. PDF pages are measured in points; images are
+  // converted to points from their resolution so both display alike.
+  width: number;
+  height: number;
+  // For raster pages, the scale at which one image pixel becomes one canvas
+  // pixel. Rendering larger would only invent detail.
+  nativeScale?: number;
+  // Set for PDF pages, whose embedded text can be read instead of OCR
+  pdfPage?: PDFPageProxy;
+  // Set for pages of text documents, which are taken as is and never OCRed.
+  // Boxes are in points.
+  textContent?: { text: string; lines: OCRLine[] };
+  // Draw the page at `scale` onto a canvas that is already sized, with the
+  // page point `origin` at the canvas's top left
+  render: (context: CanvasRenderingContext2D, scale: number, origin?: { x: number; y: number }) => RenderHandle;
+  // Free what the page holds once it has been rendered
+  release: () => void;
+}
+
+// A document normalized into pages that render the same way regardless of
+// the file format they came from
+export interface DocumentSource {
+  kind: DocumentKind;
+  pageCount: number;
+  getPage: (pageNumber: number) => Promise<SourcePage>;
+  destroy: () => void;
+}
+
+const openPDFSource = async (file: File, options: LoadPDFOptions): Promise<DocumentSource> => {
+  const pdf = await loadPDFDocument(await file.arrayBuffer(), options);
+
+  return {
+    kind: 'pdf',
+    pageCount: pdf.numPages,
+    getPage: async (pageNumber) => {
+      const page = await pdf.getPage(pageNumber);
+      const { width, height } = page.getViewport({ scale: 1 });
+      return {
+        pageNumber,
+        width,
+        height,
+        pdfPage: page,
+        render: (context, scale, origin) => {
+          const task = page.render({
+            canvasContext: context,
+            viewport: page.getViewport({ scale }),
+            transform: origin ? [1, 0, 0, 1, -origin.x * scale, -origin.y * scale] : undefined
+          });
+          return { promise: task.promise, cancel: () => task.cancel() };
+        },
+        // Drop the fonts, operator lists and decoded images pdf.js keeps for
+        // the page, which otherwise pile up over a long document
+        release: () => page.cleanup()
+      };
+    },
+    destroy: () => {
+      pdf.destroy();
+    }
+  };
+};
+
+// Phone photos and other images without a usable resolution are shown as
+// wide as a letter-size page
+const DEFAULT_IMAGE_WIDTH_POINTS = 612;
+// Assumed for TIFFs that do not record their resolution
+const DEFAULT_TIFF_DPI = 200;
+
+const createImagePage = (
+  pageNumber: number,
+  pixelWidth: number,
+  pixelHeight: number,
+  pointsPerPixelX: number,
+  pointsPerPixelY: number,
+  loadBitmap: () => Promise<ImageBitmap>,
+  releaseBitmap: () => void
+): SourcePage => ({
+  pageNumber,
+  width: pixelWidth * pointsPerPixelX,
+  height: pixelHeight * pointsPerPixelY,
+  nativeScale: 1 / pointsPerPixelX,
+  render: (context, scale, origin = { x: 0, y: 0 }) => {
+    let cancelled = false;
+    const promise = loadBitmap().then((bitmap) => {
+      if (cancelled) {
+        return;
+      }
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, context.canvas.width, context.canvas.height);
+      context.drawImage(
+        bitmap,
+        -origin.x * scale,
+        -origin.y * scale,
+        pixelWidth * pointsPerPixelX * scale,
+        pixelHeight * pointsPerPixelY * scale
+      );
+    });
+    return { promise, cancel: () => { cancelled = true; } };
+  },
+  release: releaseBitmap
+});
+
+const openImageSource = async (file: File): Promise<DocumentSource> => {
+  let bitmap: ImageBitmap;
+  try {
+    // Phone photos are often stored sideways with an EXIF orientation tag
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch (error) {
+    console.error("Image decoding error:", error);
+    throw new UnreadableImageError(file.name);
+  }
+
+  const pointsPerPixel = DEFAULT_IMAGE_WIDTH_POINTS / bitmap.width;
+  const page = createImagePage(
+    1,
+    bitmap.width,
+    bitmap.height,
+    pointsPerPixel,
+    pointsPerPixel,
+    async () => bitmap,
+    () => {}
+  );
+
+  return {
+    kind: 'image',
+    pageCount: 1,
+    getPage: async () => page,
+    destroy: () => bitmap.close()
+  };
+};
+
+const firstTagValue = (ifd: UTIF.IFD, tag: number): number | undefined => {
+  const value = (ifd[`t${tag}`] as unknown[] | undefined)?.[0];
+  if (Array.isArray(value)) {
+    // RATIONAL tags are [numerator, denominator]
+    return value[1] ? value[0] / value[1] : undefined;
+  }
+  return typeof value === 'number' ? value : undefined;
+};
+
+const TIFF_TAG = {
+  newSubfileType: 254,
+  width: 256,
+  height: 257,
+  xResolution: 282,
+  yResolution: 283,
+  resolutionUnit: 296
+};
+
+// Pixels per inch along one axis. Fax scans are commonly 204x98 or
+// 204x196, so the axes are read separately to keep the aspect ratio.
+const getTiffDpi = (ifd: UTIF.IFD, tag: number): number => {
+  const resolution = firstTagValue(ifd, tag);
+  if (!resolution) {
+    return DEFAULT_TIFF_DPI;
+  }
+  const unit = firstTagValue(ifd, TIFF_TAG.resolutionUnit) ?? 2;
+  if (unit === 3) {
+    return resolution * 2.54; // Per centimetre
+  }
+  return unit === 2 ? resolution : DEFAULT_TIFF_DPI;
+};
+
+// Multi-page TIFFs store one directory per page. Pages are only decoded
+// when rendered, so a long fax never has every page in memory at once.
+const openTiffSource = async (file: File): Promise<DocumentSource> => {
+  const buffer = await file.arrayBuffer();
+  let directories: UTIF.IFD[];
+  try {
+    directories = UTIF.decode(buffer).filter(ifd =>
+      firstTagValue(ifd, TIFF_TAG.width) &&
+      firstTagValue(ifd, TIFF_TAG.height) &&
+      // Skip reduced-resolution previews of another page
+      !((firstTagValue(ifd, TIFF_TAG.newSubfileType) ?? 0) & 1)
+    );
+  } catch (error) {
+    console.error("TIFF parsing error:", error);
+    throw new UnreadableImageError(file.name);
+  }
+
+  if (directories.length === 0) {
+    throw new UnreadableImageError(file.name);
+  }
+
+  return {
+    kind: 'tiff',
+    pageCount: directories.length,
+    getPage: async (pageNumber) => {
+      const ifd = directories[pageNumber - 1];
+      let bitmap: Promise<ImageBitmap> | null = null;
+
+      const loadBitmap = () => {
+        bitmap ??= (async () => {
+          try {
+            UTIF.decodeImage(buffer, ifd);
+            const rgba = UTIF.toRGBA8(ifd);
+            const pixels = new Uint8ClampedArray(rgba.buffer, rgba.byteOffset, rgba.byteLength);
+            return await createImageBitmap(new ImageData(pixels, ifd.width, ifd.height));
+          } catch (error) {
+            console.error(`TIFF decoding error on page ${pageNumber}:`, error);
+            throw new UnreadableImageError(file.name);
+          } finally {
+            // The decoded strip data is no longer needed once it is a bitmap
+            delete (ifd as Partial<UTIF.IFD>).data;
+          }
+        })();
+        return bitmap;
+      };
+
+      return createImagePage(
+        pageNumber,
+        firstTagValue(ifd, TIFF_TAG.width)!,
+        firstTagValue(ifd, TIFF_TAG.height)!,
+        72 / getTiffDpi(ifd, TIFF_TAG.xResolution),
+        72 / getTiffDpi(ifd, TIFF_TAG.yResolution),
+        loadBitmap,
+        () => {
+          bitmap?.then(loaded => loaded.close()).catch(() => {});
+          bitmap = null;
+        }
+      );
+    },
+    destroy: () => {
+      directories = [];
+    }
+  };
+};
+
+// Open any supported file as a DocumentSource. Rejects with
+// UnsupportedFileTypeError, UnreadableImageError, UnreadableDocxError or, for PDFs, the errors
+// of loadPDFDocument.
+export const openDocument = (file: File, options: LoadPDFOptions = {}): Promise<DocumentSource> => {
+  switch (getDocumentKind(file)) {
+    case 'pdf':
+      return openPDFSource(file, options);
+    case 'docx':
+      return openDocxSource(file).catch((error) => {
+        console.error("DOCX parsing error:", error);
+        throw new UnreadableDocxError(file.name);
+      });
+    case 'image':
+      return openImageSource(file);
+    case 'tiff':
+      return openTiffSource(file);
+    default:
+      return Promise.reject(new UnsupportedFileTypeError(file.type));
+  }
+};
@@ -0,0 +1,121 @@
+import type { PageResult, TesseractConfig } from '@/utils/pdfProcessor';
+import type { ExtractedField } from '@/utils/fieldProvenance';
+import { openIndexedDB, requestToPromise, transactionDone } from '@/utils/indexedDB';
+
+// Processing jobs are kept in IndexedDB together with the uploaded file, so
+// the review screen can be reloaded or reopened from a link at
+// /process/:jobId without losing OCR output or the reviewer's edits.
+
+const DB_NAME = 'title-vault-jobs';
+const STORE_NAME = 'jobs';
+const DB_VERSION = 1;
+
+// Jobs wait in 'review' once processing has finished, until the reviewer
+// approves them and then exports them
+export type JobStatus = 'queued' | 'processing' | 'review' | 'approved' | 'exported' | 'failed';
+
+export const JOB_STATUS_LABELS: Record<JobStatus, string> = {
+  queued: 'Queued',
+  processing: 'Processing',
+  review: 'Needs review',
+  approved: 'Approved',
+  exported: 'Exported',
+  failed: 'Failed'
+};
+
+export interface ProcessingJob {
+  id: string;
+  file: File;
+  fileId: string;
+  closerInitials: string;
+  confidenceThreshold: number;
+  status: JobStatus;
+  createdAt: number;
+  updatedAt: number;
+  error?: string;
+  tesseractConfig?: TesseractConfig;
+  // Set once processing has finished, then kept up to date with edits
+  extractedText?: string;
+  confidence?: number;
+  pages?: PageResult[];
+  fields?: ExtractedField[];
+  notes?: string;
+}
+
+export type NewJob = Pick<ProcessingJob, 'file' | 'fileId' | 'closerInitials' | 'confidenceThreshold'>;
+export type JobChanges = Partial<Omit<ProcessingJob, 'id' | 'createdAt'>>;
+
+// True when the job has finished processing, so it opens straight into the
+// review screen instead of being processed again
+export const hasReviewResults = (job: ProcessingJob): boolean =>
+  (job.status === 'review' || job.status === 'approved' || job.status === 'exported') && !!job.fields;
+
+export class JobNotFoundError extends Error {
+  constructor(jobId: string) {
+    super(`No saved job with ID ${jobId}.`);
+    this.name = "JobNotFoundError";
+  }
+}
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  database ??= openIndexedDB(DB_NAME, DB_VERSION, (db) => {
+    const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    store.createIndex('updatedAt', 'updatedAt');
+  }).catch((error) => {
+    database = null;
+    throw error;
+  });
+  return database;
+};
+
+export const createJob = async (job: NewJob): Promise<ProcessingJob> => {
+  const now = Date.now();
+  const created: ProcessingJob = {
+    ...job,
+    id: crypto.randomUUID(),
+    status: 'queued',
+    createdAt: now,
+    updatedAt: now
+  };
+
+  const db = await openDatabase();
+  const transaction = db.transaction(STORE_NAME, 'readwrite');
+  transaction.objectStore(STORE_NAME).add(created);
+  await transactionDone(transaction);
+  return created;
+};
+
+export const getJob = async (jobId: string): Promise<ProcessingJob | null> => {
+  const db = await openDatabase();
+  const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+  return (await requestToPromise<ProcessingJob | undefined>(store.get(jobId))) ?? null;
+};
+
+// Every saved job, most recently updated first
+export const listJobs = async (): Promise<ProcessingJob[]> => {
+  const db = await openDatabase();
+  const index = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).index('updatedAt');
+  const jobs = await requestToPromise<ProcessingJob[]>(index.getAll());
+  return jobs.reverse();
+};
+
+// Merge `changes` into a saved job. Read and write happen in one
+// transaction so concurrent saves never drop each other's fields.
+export const updateJob = async (jobId: string, changes: JobChanges): Promise<ProcessingJob> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORE_NAME, 'readwrite');
+  const store = transaction.objectStore(STORE_NAME);
+
+  const current = await requestToPromise<ProcessingJob | undefined>(store.get(jobId));
+  if (!current) {
+    transaction.abort();
+    throw new JobNotFoundError(jobId);
+  }
+
+  const updated: ProcessingJob = { ...current, ...changes, updatedAt: Date.now() };
+  store.put(updated);
+  await transactionDone(transaction);
+  return updated;
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { parseLegalDescription } from '@/utils/legalDescription';
+import { computeTraverse } from '@/utils/traverse';
+
+describe('parseLegalDescription', () => {
+  it('reads a curve given by its chord bearing and chord distance', () => {
+    const { calls, unparsedCourses } = parseLegalDescription(
+      'THENCE along a curve to the right having a radius of 100.00 feet, an arc length of 157.08 feet ' +
+      'and a chord bearing of S 45°00\'00" E, a chord distance of 141.42 feet to a point;'
+    );
+
+    expect(unparsedCourses).toBeUndefined();
+    expect(calls).toHaveLength(1);
+    expect(calls[0]).toMatchObject({
+      bearing: { ns: 'S', degrees: 45, minutes: 0, seconds: 0, ew: 'E' },
+      distance: 141.42,
+      unit: 'feet',
+      curve: { direction: 'right', radiusFeet: 100, arcLengthFeet: 157.08 }
+    });
+  });
+
+  it('reads a chord length given without "distance"', () => {
+    const { calls } = parseLegalDescription('THENCE with said curve, chord bearing N 10°30\' W, chord length 50.5\'');
+
+    expect(calls.map(call => [call.bearing.ns, call.bearing.degrees, call.distance])).toEqual([['N', 10, 50.5]]);
+  });
+
+  it('reports the courses no call could be read from', () => {
+    const description = parseLegalDescription(
+      'BEGINNING at an iron rod; THENCE N 00°00\'00" E, 100.00 feet; ' +
+      'THENCE N 9O°00\'00" E, 1OO.00 feet; ' +
+      'THENCE S 00°00\'00" W, 100.00 feet; ' +
+      'THENCE S 90°00\'00" W, 100.00 feet to the POINT OF BEGINNING.'
+    );
+
+    expect(description.calls).toHaveLength(3);
+    expect(description.unparsedCourses).toEqual(['THENCE N 9O°00\'00" E, 1OO.00 feet']);
+  });
+
+  it('reports a last course whose bearing is out of range', () => {
+    const description = parseLegalDescription(
+      'THENCE N 00°00\'00" E, 100.00 feet; THENCE N 90°00\'00" E, 100.00 feet; ' +
+      'THENCE S 00°00\'00" W, 100.00 feet; THENCE S 95°00\'00" W, 100.00 feet to the POINT OF BEGINNING.'
+    );
+
+    expect(description.calls).toHaveLength(3);
+    expect(description.unparsedCourses).toEqual([
+      'THENCE S 95°00\'00" W, 100.00 feet to the POINT OF BEGINNING.'
+    ]);
+  });
+
+  it('reports no unparsed courses when every course is read', () => {
+    const description = parseLegalDescription(
+      'BEGINNING at an iron rod; THENCE N 00°00\'00" E, 100.00 feet; THENCE N 90°00\'00" E, 100.00 feet; ' +
+      'THENCE S 00°00\'00" W, 100.00 feet; THENCE S 90°00\'00" W, 100.00 feet to the POINT OF BEGINNING.'
+    );
+
+    expect(description.unparsedCourses).toBeUndefined();
+    const traverse = computeTraverse(description.calls);
+    expect(traverse?.closes).toBe(true);
+    expect(traverse?.areaSquareFeet).toBeCloseTo(10_000);
+  });
+});
@@ -0,0 +1,326 @@
+// Structured parts of a property's legal description. Descriptions come in
+// a few standard systems, often combined: lot and block of a recorded plat,
+// abstract and survey (Texas), section-township-range (public land survey)
+// and metes and bounds. Parsing is best effort; parts that are not found
+// are left out.
+
+export type BearingQuadrant = { ns: 'N' | 'S'; ew: 'E' | 'W' };
+
+export interface Bearing extends BearingQuadrant {
+  degrees: number;
+  minutes: number;
+  seconds: number;
+}
+
+export type DistanceUnit = 'feet' | 'varas' | 'chains' | 'rods' | 'meters';
+
+// Curve data given with a course along a curve, converted to feet
+export interface CurveData {
+  direction: 'left' | 'right';
+  radiusFeet: number;
+  arcLengthFeet?: number;
+  // Central angle in degrees
+  delta?: number;
+}
+
+// One course of a metes-and-bounds description: "N 45°30'15" E, 120.50
+// feet". For a curve the bearing and distance are those of its chord.
+export interface MetesAndBoundsCall {
+  text: string;
+  bearing: Bearing;
+  distance: number;
+  unit: DistanceUnit;
+  distanceFeet: number;
+  curve?: CurveData;
+}
+
+export interface LegalDescription {
+  lot?: string;
+  block?: string;
+  subdivision?: string;
+  // Where the plat or deed is recorded, e.g. "Volume 12, Page 34, Plat
+  // Records of Travis County"
+  recording?: string;
+  county?: string;
+  abstract?: string;
+  survey?: string;
+  // Quarter-section part ahead of the section, e.g. "NE 1/4 of the SW 1/4"
+  aliquot?: string;
+  section?: string;
+  township?: string;
+  range?: string;
+  meridian?: string;
+  calls: MetesAndBoundsCall[];
+  // Courses starting with "THENCE" that no call could be read from. The
+  // calls do not go all the way round while there are any.
+  unparsedCourses?: string[];
+  acreage?: number;
+}
+
+const FEET_PER_UNIT: Record<DistanceUnit, number> = {
+  feet: 1,
+  // The Texas vara of 33 1/3 inches
+  varas: 100 / 36,
+  chains: 66,
+  rods: 16.5,
+  meters: 1 / 0.3048
+};
+
+// Lot and block numbers: 5, 12A, B
+const LOT_ID = '(?:\\d+[A-Za-z]?|[A-Z])\\b';
+const LOT = new RegExp(
+  `\\blots?\\s+(?:nos?\\.?\\s*)?(${LOT_ID}(?:\\s*(?:,|&|-|and|through|thru)\\s*${LOT_ID})*)`,
+  'i'
+);
+const BLOCK = new RegExp(`\\b(?:block|blk\\.?)\\s+(?:no\\.?\\s*)?(${LOT_ID})`, 'i');
+
+// Where the subdivision name after a lot and block ends
+const SUBDIVISION_END = /[,;(]|\s+(?:according|as\s+(?:per|shown|recorded)|recorded|an?\s+(?:addition|subdivision)\s+(?:to|in|of))\b/i;
+// Phase, section or unit of a subdivision that follows its name
+const SUBDIVISION_PART = /^,\s*((?:phase|section|unit)\s+[\w-]+)(?=[,;(]|\s|$)/i;
+
+const RECORDING = /\b((?:plat\s+book|volume|vol\.|book|bk\.|cabinet|cab\.|document|doc\.|instrument|clerk's\s+file)\s*(?:no\.?\s*)?[\w-]+(?:\s*,?\s*(?:pages?|pgs?\.?|slides?)\s*[\w-]+(?:\s*-\s*[\w-]+)?)?)/i;
+const RECORDS = /\b((?:map|plat|deed|official(?:\s+public)?|real\s+property|condominium)\s+records\s+of\s+((?:[\w.'-]+\s+){1,3}?)County)\b/i;
+const COUNTY = /\b((?:[A-Z][\w.'-]*\s+){1,3})County\b/;
+
+const ABSTRACT = /\b(?:abstract|abst?\.)\s*(?:no\.?|number)?\s*(A?-?\d+)/i;
+// Words before "Survey" that are not part of the survey's name
+const SURVEY_STOP_WORDS = new Set([
+  'the', 'of', 'in', 'out', 'part', 'being', 'a', 'an', 'and', 'situated', 'situate', 'lying', 'located', 'tract', 'acre', 'acres'
+]);
+
+const SECTION = /\b(?:section|sec\.)\s*(\d+)\b/i;
+const TOWNSHIP = /\b(?:township|twp\.?|T\.?)\s*(\d+)\s*(north|south|N|S)\b\.?/i;
+const RANGE = /\b(?:range|rng\.?|R\.?)\s*(\d+)\s*(east|west|E|W)\b\.?/i;
+const ALIQUOT = /((?:(?:the\s+)?(?:[NS][EW]?|[EW]|north|south|east|west|northeast|northwest|southeast|southwest)\s*(?:1\/[248]|one[-\s](?:quarter|half)|quarter|half)\s+of\s+)+)(?:the\s+)?(?:section|sec\.)\s*\d/i;
+const MERIDIAN = /\b(?:the\s+)?((?:\w+\s+)?(?:principal\s+)?meridian)\b/i;
+
+// Degrees, minutes and seconds: 45°30'15", 45-30-15 or 45 degrees 30
+// minutes 15 seconds. Captures degrees, minutes and seconds.
+const DMS =
+  '(\\d{1,3})\\s*(?:°|º|˚|deg(?:rees|\\.)?|-|\\s)\\s*' +
+  '(?:(\\d{1,2})\\s*(?:\'|’|′|min(?:utes|\\.)?|-|\\s)\\s*)?' +
+  '(?:(\\d{1,2}(?:\\.\\d+)?)\\s*(?:"|”|″|\'\'|sec(?:onds|\\.)?)?\\s*)?';
+const DISTANCE_UNIT = '(feet|foot|ft\\b\\.?|varas?\\b|chains?\\b|rods?\\b|meters?\\b|\')';
+
+// A bearing such as N 45°30'15" E, N45-30-15E or North 45 degrees 30
+// minutes East, followed by its distance: "a distance of 120.50 feet", or
+// for a curve "a chord distance of 141.42 feet"
+const CALL = new RegExp(
+  `\\b(N|S|north|south)\\.?\\s*${DMS}(E|W|east|west)\\b\\.?` +
+  '\\s*,?\\s*(?:(?:for|along)\\s+)?(?:(?:a|and(?:\\s+a)?)\\s+)?(?:chord\\s+)?(?:(?:distance|length)\\s+(?:of\\s+)?)?' +
+  `(\\d[\\d,]*(?:\\.\\d+)?)\\s*${DISTANCE_UNIT}`,
+  'gi'
+);
+
+// Each course starts with "THENCE"; curve data belongs to the call in the
+// same course
+const COURSE_START = /\bthence\b/gi;
+const CURVE = /\bcurve\s+to\s+the\s+(left|right)\b/i;
+const RADIUS = new RegExp(`\\bradius\\s*(?:of|=|:)?\\s*(\\d[\\d,]*(?:\\.\\d+)?)\\s*${DISTANCE_UNIT}?`, 'i');
+const ARC_LENGTH = new RegExp(`\\barc\\s+(?:length|distance)\\s*(?:of|=|:)?\\s*(\\d[\\d,]*(?:\\.\\d+)?)\\s*${DISTANCE_UNIT}?`, 'i');
+const DELTA = new RegExp(`(?:\\bcentral\\s+angle|\\bdelta(?:\\s+angle)?|Δ)\\s*(?:of|=|:)?\\s*${DMS}`, 'i');
+
+const ACREAGE = /(\d[\d,]*(?:\.\d+)?)\s*(?:acres?\b|ac\.)/i;
+
+const toNumber = (value: string) => Number(value.replace(/,/g, ''));
+
+const toUnit = (unit: string | undefined): DistanceUnit => {
+  const lower = unit?.toLowerCase() ?? '';
+  if (lower.startsWith('vara')) return 'varas';
+  if (lower.startsWith('chain')) return 'chains';
+  if (lower.startsWith('rod')) return 'rods';
+  if (lower.startsWith('meter')) return 'meters';
+  return 'feet';
+};
+
+const toFeet = (value: string, unit: string | undefined) => toNumber(value) * FEET_PER_UNIT[toUnit(unit)];
+
+const toDegrees = (degrees: string, minutes?: string, seconds?: string) =>
+  Number(degrees) + Number(minutes ?? 0) / 60 + Number(seconds ?? 0) / 3600;
+
+const parseCurve = (course: string): CurveData | undefined => {
+  const curve = course.match(CURVE);
+  const radius = course.match(RADIUS);
+  if (!curve || !radius) {
+    return undefined;
+  }
+  const arcLength = course.match(ARC_LENGTH);
+  const delta = course.match(DELTA);
+  return {
+    direction: curve[1].toLowerCase() as 'left' | 'right',
+    radiusFeet: toFeet(radius[1], radius[2]),
+    ...(arcLength && { arcLengthFeet: toFeet(arcLength[1], arcLength[2]) }),
+    ...(delta && { delta: toDegrees(delta[1], delta[2], delta[3]) })
+  };
+};
+
+const parseCalls = (text: string): Pick<LegalDescription, 'calls' | 'unparsedCourses'> => {
+  const matches = Array.from(text.matchAll(CALL));
+  const courseStarts = Array.from(text.matchAll(COURSE_START)).map(match => match.index ?? 0);
+  const readFrom: number[] = [];
+
+  const calls = matches.flatMap((match, index): MetesAndBoundsCall[] => {
+    const degrees = Number(match[2]);
+    const minutes = Number(match[3] ?? 0);
+    const seconds = Number(match[4] ?? 0);
+    if (degrees > 90 || minutes >= 60 || seconds >= 60) {
+      return [];
+    }
+
+    // The course runs from its THENCE to the next one, without reaching
+    // into the calls on either side
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    const previousEnd = index > 0 ? (matches[index - 1].index ?? 0) + matches[index - 1][0].length : 0;
+    const nextStart = index < matches.length - 1 ? matches[index + 1].index ?? text.length : text.length;
+    const courseStart = Math.max(previousEnd, ...courseStarts.filter(position => position <= start));
+    const courseEnd = Math.min(nextStart, ...courseStarts.filter(position => position >= end));
+
+    const unit = toUnit(match[7]);
+    const distance = toNumber(match[6]);
+    const curve = parseCurve(text.slice(courseStart, courseEnd));
+    readFrom.push(start);
+    return [{
+      text: match[0],
+      bearing: {
+        ns: match[1][0].toUpperCase() as 'N' | 'S',
+        degrees,
+        minutes,
+        seconds,
+        ew: match[5][0].toUpperCase() as 'E' | 'W'
+      },
+      distance,
+      unit,
+      distanceFeet: distance * FEET_PER_UNIT[unit],
+      ...(curve && { curve })
+    }];
+  });
+
+  // A course runs from its THENCE to the next one or the end of the text
+  const unparsedCourses = courseStarts.flatMap((courseStart, index) => {
+    const courseEnd = courseStarts[index + 1] ?? text.length;
+    return readFrom.some(position => position >= courseStart && position < courseEnd)
+      ? []
+      : [text.slice(courseStart, courseEnd).replace(/[\s,;]+$/, '')];
+  });
+  return { calls, ...(unparsedCourses.length > 0 && { unparsedCourses }) };
+};
+
+// Name of the plat that follows the lot and block: "of SUNSET HILLS
+// ADDITION, an addition to the City of Austin" gives "SUNSET HILLS ADDITION"
+const parseSubdivision = (text: string, after: number): string | undefined => {
+  const rest = text.slice(after).replace(/^[\s,]*(?:(?:of|in)\s+)?(?:the\s+)?/i, '');
+  const end = rest.search(SUBDIVISION_END);
+  const name = (end < 0 ? rest : rest.slice(0, end)).trim();
+  if (!name || name.length > 80 || !/^[A-Z0-9]/.test(name)) {
+    return undefined;
+  }
+  const part = end < 0 ? null : rest.slice(end).match(SUBDIVISION_PART);
+  return part ? `${name}, ${part[1]}` : name;
+};
+
+// The capitalized words naming a survey, read back from "Survey"
+const parseSurvey = (text: string): string | undefined => {
+  const match = text.match(/\bsurvey\b/i);
+  if (!match || match.index === undefined) {
+    return undefined;
+  }
+  const before = text.slice(0, match.index).split(/[,;(]/).pop() ?? '';
+  const words: string[] = [];
+  for (const word of before.trim().split(/\s+/).reverse()) {
+    if (!word || SURVEY_STOP_WORDS.has(word.toLowerCase()) || words.length === 6) {
+      break;
+    }
+    words.unshift(word);
+  }
+  return words.length > 0 ? `${words.join(' ')} ${match[0]}` : undefined;
+};
+
+const formatDirection = (word: string) => word[0].toUpperCase();
+
+// Every part of the legal description that can be recognized in `text`
+export const parseLegalDescription = (text: string): LegalDescription => {
+  const collapsed = text.replace(/\s+/g, ' ').trim();
+  const description: LegalDescription = parseCalls(collapsed);
+
+  const lot = collapsed.match(LOT);
+  const block = collapsed.match(BLOCK);
+  if (lot) description.lot = lot[1];
+  if (block) description.block = block[1];
+  if (lot || block) {
+    const after = Math.max(
+      lot ? (lot.index ?? 0) + lot[0].length : 0,
+      block ? (block.index ?? 0) + block[0].length : 0
+    );
+    description.subdivision = parseSubdivision(collapsed, after);
+  }
+
+  const recording = collapsed.match(RECORDING);
+  const records = collapsed.match(RECORDS);
+  if (recording || records) {
+    description.recording = [recording?.[1], records?.[1]].filter(Boolean).join(', ');
+  }
+  const county = records?.[2] ?? collapsed.match(COUNTY)?.[1];
+  if (county) description.county = `${county.trim()} County`;
+
+  const abstract = collapsed.match(ABSTRACT);
+  if (abstract) description.abstract = abstract[1];
+  description.survey = parseSurvey(collapsed);
+
+  // Township and range only count together, so a stray "R 5 E" is not taken
+  // for a range
+  const township = collapsed.match(TOWNSHIP);
+  const range = collapsed.match(RANGE);
+  if (township && range) {
+    description.township = `T${township[1]}${formatDirection(township[2])}`;
+    description.range = `R${range[1]}${formatDirection(range[2])}`;
+    const section = collapsed.match(SECTION);
+    if (section) description.section = section[1];
+    const aliquot = collapsed.match(ALIQUOT);
+    if (aliquot) description.aliquot = aliquot[1].trim().replace(/^the\s+|\s+of$/gi, '');
+    const meridian = collapsed.match(MERIDIAN);
+    if (meridian) description.meridian = meridian[1];
+  }
+
+  const acreage = collapsed.match(ACREAGE);
+  if (acreage) description.acreage = toNumber(acreage[1]);
+
+  // Leave out parts that were not found so the result reads cleanly
+  (Object.keys(description) as (keyof LegalDescription)[]).forEach(key => {
+    if (description[key] === undefined) delete description[key];
+  });
+  return description;
+};
+
+export const isEmptyLegalDescription = (description: LegalDescription): boolean =>
+  Object.keys(description).length === 1 && description.calls.length === 0;
+
+export const formatBearing = ({ ns, degrees, minutes, seconds, ew }: Bearing): string =>
+  `${ns} ${degrees}°${String(minutes).padStart(2, '0')}'${String(Math.round(seconds)).padStart(2, '0')}" ${ew}`;
+
+const LEGAL_DESCRIPTION_LABELS: [keyof Omit<LegalDescription, 'calls' | 'unparsedCourses'>, string][] = [
+  ['lot', 'Lot'],
+  ['block', 'Block'],
+  ['subdivision', 'Subdivision'],
+  ['recording', 'Recorded In'],
+  ['county', 'County'],
+  ['abstract', 'Abstract'],
+  ['survey', 'Survey'],
+  ['aliquot', 'Aliquot Part'],
+  ['section', 'Section'],
+  ['township', 'Township'],
+  ['range', 'Range'],
+  ['meridian', 'Meridian'],
+  ['acreage', 'Acreage']
+];
+
+// Label and text of every part that was found, in reading order
+export const describeLegalDescription = (description: LegalDescription): { label: string; value: string }[] =>
+  LEGAL_DESCRIPTION_LABELS.flatMap(([key, label]) => {
+    const value = description[key];
+    if (value === undefined) {
+      return [];
+    }
+    return [{ label, value: key === 'acreage' ? `${value} acres` : String(value) }];
+  });
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeName } from '@/utils/normalizers';
+
+describe('normalizeName', () => {
+  it('puts names typed in capitals in title case', () => {
+    expect(normalizeName('JOHN Q. SMITH AND MARY SMITH')).toBe('John Q. Smith and Mary Smith');
+    expect(normalizeName('ACME HOLDINGS, LLC')).toBe('Acme Holdings, LLC');
+  });
+
+  it('ignores joining words already in lower case when deciding a name is in capitals', () => {
+    expect(normalizeName('JOHN Q. SMITH and MARY SMITH')).toBe('John Q. Smith and Mary Smith');
+    expect(normalizeName('ESTATE of MARY O\'BRIEN')).toBe('Estate of Mary O\'Brien');
+  });
+
+  it('keeps a middle initial in capitals', () => {
+    expect(normalizeName('JOHN A SMITH')).toBe('John A Smith');
+    expect(normalizeName('MARY AN LEE')).toBe('Mary An Lee');
+  });
+
+  it('lowercases surname particles inside a name but not where a name starts with them', () => {
+    expect(normalizeName('MARIA DE LA CRUZ')).toBe('Maria de la Cruz');
+    expect(normalizeName('DE LA CRUZ, MARIA')).toBe('De la Cruz, Maria');
+    expect(normalizeName('JOHN SMITH AND DE LA CRUZ HOLDINGS, LLC')).toBe('John Smith and De la Cruz Holdings, LLC');
+    expect(normalizeName('LUDWIG VAN')).toBe('Ludwig Van');
+  });
+
+  it('leaves names in mixed case as they are', () => {
+    expect(normalizeName('John McDonald and Mary SMITH')).toBe('John McDonald and Mary SMITH');
+    expect(normalizeName('and of the')).toBe('and of the');
+  });
+
+  it('drops role tags, extra whitespace and trailing punctuation', () => {
+    expect(normalizeName('  JANE   DOE (hereinafter "Buyer"),')).toBe('Jane Doe');
+  });
+});
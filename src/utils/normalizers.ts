@@ -0,0 +1,213 @@
+import type { FieldDefinition, FieldNormalizer } from '@/utils/fieldSchema';
+import { findWrittenAmounts } from '@/utils/amountInWords';
+import { isEmptyLegalDescription, LegalDescription, parseLegalDescription } from '@/utils/legalDescription';
+
+// Turn text read from a contract into typed values: money as integer cents,
+// dates as ISO yyyy-mm-dd, names in a canonical form and legal descriptions
+// split into their parts. Every normalizer also gives the canonical text
+// shown in the review form and exported; the text it was read from is kept
+// separately as the field's originalText.
+
+export type NormalizedValue =
+  | { type: 'money'; cents: number }
+  | { type: 'date'; iso: string }
+  | { type: 'name'; name: string }
+  | { type: 'legalDescription'; description: LegalDescription };
+
+export interface NormalizedText {
+  value: string;
+  // Null when the text could not be parsed; `value` is then the text as is
+  normalized: NormalizedValue | null;
+}
+
+// Money
+
+// Cents in a figure such as "$1,250,000.00", or null when it is not one
+export const parseMoneyCents = (value: string): number | null => {
+  const match = value.replace(/[\s$]/g, '').match(/^(\d{1,3}(?:,?\d{3})*)(?:\.(\d{2}))?$/);
+  if (!match) {
+    return null;
+  }
+  return Number(match[1].replace(/,/g, '')) * 100 + Number(match[2] ?? 0);
+};
+
+export const formatCents = (cents: number): string =>
+  `$${(cents / 100).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// A figure, or an amount written out in full such as "Twenty-Five Thousand
+// Dollars"
+export const parseMoney = (text: string): number | null => {
+  const cents = parseMoneyCents(text);
+  if (cents !== null) {
+    return cents;
+  }
+  const trimmed = text.trim();
+  const [written] = findWrittenAmounts(trimmed);
+  return written && written.start === 0 && written.end === trimmed.length ? written.cents : null;
+};
+
+// Dates
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12
+};
+
+// Words around the parts of a date in "this 3rd day of March, 2025"
+const DATE_FILLER_WORDS = new Set(['the', 'this', 'day', 'of', 'on']);
+
+// Two-digit years up to this one are read as 20xx, later ones as 19xx
+const TWO_DIGIT_YEAR_PIVOT = 69;
+
+const toISODate = (year: number, month: number, day: number): string | null => {
+  const fullYear = year < 100 ? year + (year <= TWO_DIGIT_YEAR_PIVOT ? 2000 : 1900) : year;
+  const date = new Date(fullYear, month - 1, day);
+  if (date.getFullYear() !== fullYear || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return `${fullYear}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+const monthOf = (word: string): number | undefined =>
+  /^[a-z]+$/.test(word) && word.length >= 3 ? MONTHS[word.slice(0, 3)] : undefined;
+
+// ISO yyyy-mm-dd for a date in any of the usual contract formats:
+// "03/03/2025", "3-3-25", "2025-03-03", "March 3rd, 2025", "Mar. 3, 2025",
+// "3 March 2025", "3-Mar-25" and "the 3rd day of March, 2025". Numeric
+// dates are read month first.
+export const parseDate = (text: string): string | null => {
+  const trimmed = text.trim();
+
+  const iso = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (iso) {
+    return toISODate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+  }
+
+  const numeric = trimmed.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4}|\d{2})$/);
+  if (numeric) {
+    return toISODate(Number(numeric[3]), Number(numeric[1]), Number(numeric[2]));
+  }
+
+  const tokens = trimmed
+    .toLowerCase()
+    .replace(/(\d)(?:st|nd|rd|th)\b/g, '$1')
+    .split(/[\s,.-]+/)
+    .filter(token => token && !DATE_FILLER_WORDS.has(token));
+  if (tokens.length !== 3) {
+    return null;
+  }
+
+  const monthIndex = tokens.findIndex(token => monthOf(token) !== undefined);
+  const numbers = tokens.filter((_, index) => index !== monthIndex);
+  if (monthIndex < 0 || monthIndex === 2 || !numbers.every(token => /^\d+$/.test(token))) {
+    return null;
+  }
+  // Month first ("March 3 2025") or in the middle ("3 March 2025")
+  const [day, year] = numbers.map(Number);
+  if (numbers[1].length !== 2 && numbers[1].length !== 4) {
+    return null;
+  }
+  return toISODate(year, monthOf(tokens[monthIndex])!, day);
+};
+
+// Names
+
+// Entity designators and generational suffixes kept in their usual case
+const NAME_SUFFIXES: Record<string, string> = {
+  llc: 'LLC', 'l.l.c.': 'L.L.C.', lp: 'LP', 'l.p.': 'L.P.', llp: 'LLP', pllc: 'PLLC', pc: 'PC', 'p.c.': 'P.C.',
+  inc: 'Inc', 'inc.': 'Inc.', corp: 'Corp', 'corp.': 'Corp.', co: 'Co', 'co.': 'Co.', ltd: 'Ltd', 'ltd.': 'Ltd.',
+  'n.a.': 'N.A.', ii: 'II', iii: 'III', iv: 'IV', jr: 'Jr', 'jr.': 'Jr.', sr: 'Sr', 'sr.': 'Sr.'
+};
+
+// Words joining names, such as "Estate of", kept in lower case after the
+// first word
+const JOINING_WORDS = new Set(['and', 'of', 'the', 'as', 'for']);
+
+// Surname particles, kept in lower case inside a name ("Maria de la Cruz")
+// but capitalized where a name starts with them ("De la Cruz, Maria")
+const NAME_PARTICLES = new Set(['de', 'del', 'della', 'da', 'di', 'du', 'la', 'le', 'van', 'von', 'der', 'den', 'ter']);
+
+// Role tags that follow a party's name: ("Buyer"), (hereinafter "Seller")
+const ROLE_TAG = /\(\s*(?:hereinafter\s+)?(?:(?:referred\s+to|known)\s+as\s+)?(?:the\s+)?["“”']*\s*(?:buyer|seller|purchaser|vendor|grantor|grantee)s?\s*["“”']*\s*\)/gi;
+
+const capitalize = (word: string): string =>
+  word.toLowerCase().replace(/(^|[-'’])([a-z])/g, (_, separator: string, letter: string) => separator + letter.toUpperCase());
+
+// A name with whitespace collapsed, role tags and trailing punctuation
+// removed, and all-caps names put in title case. Joining words such as
+// "and" do not count against a name being in capitals, since typed forms
+// often fill in "JOHN SMITH and MARY SMITH". Single letters are initials,
+// never particles.
+export const normalizeName = (text: string): string => {
+  const name = text
+    .replace(ROLE_TAG, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^[,;:\s]+|[,;:\s]+$/g, '');
+
+  const words = name.split(' ').map(word => {
+    const trailing = word.match(/[,;]+$/)?.[0] ?? '';
+    const text = trailing ? word.slice(0, -trailing.length) : word;
+    return { text, lower: text.toLowerCase(), trailing };
+  });
+  // Joining words and particles already in lower case do not tell how the
+  // rest of the name was typed
+  const nameWords = words.filter(({ text }) => !JOINING_WORDS.has(text) && !NAME_PARTICLES.has(text));
+  if (!nameWords.some(({ text }) => /[A-Z]/.test(text)) || nameWords.some(({ text }) => /[a-z]/.test(text))) {
+    return name;
+  }
+
+  return words
+    .map(({ lower, trailing }, index) => {
+      const previous = words[index - 1];
+      // A name starts at the beginning, after a joining word or after a
+      // comma, and ends at the end or at a comma
+      const startsName = !previous || JOINING_WORDS.has(previous.lower) || previous.trailing !== '';
+      const endsName = index === words.length - 1 || trailing !== '';
+      if (lower in NAME_SUFFIXES) {
+        return NAME_SUFFIXES[lower] + trailing;
+      }
+      if (index > 0 && JOINING_WORDS.has(lower)) {
+        return lower + trailing;
+      }
+      if (NAME_PARTICLES.has(lower) && !startsName && !endsName) {
+        return lower + trailing;
+      }
+      return capitalize(lower) + trailing;
+    })
+    .join(' ');
+};
+
+const collapseWhitespace = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+const NORMALIZERS: Record<FieldNormalizer, (text: string) => NormalizedText> = {
+  none: text => ({ value: text, normalized: null }),
+  trim: text => ({ value: collapseWhitespace(text), normalized: null }),
+  money: (text) => {
+    const cents = parseMoney(text);
+    return cents === null
+      ? { value: collapseWhitespace(text), normalized: null }
+      : { value: formatCents(cents), normalized: { type: 'money', cents } };
+  },
+  date: (text) => {
+    const iso = parseDate(collapseWhitespace(text));
+    return iso === null
+      ? { value: collapseWhitespace(text), normalized: null }
+      : { value: iso, normalized: { type: 'date', iso } };
+  },
+  name: (text) => {
+    const name = normalizeName(text);
+    return { value: name, normalized: name ? { type: 'name', name } : null };
+  },
+  legalDescription: (text) => {
+    const description = parseLegalDescription(text);
+    return {
+      value: collapseWhitespace(text),
+      normalized: isEmptyLegalDescription(description) ? null : { type: 'legalDescription', description }
+    };
+  }
+};
+
+// Canonical text and typed value for text read into a field. Fields that
+// are not in the schema are left as they are.
+export const normalizeFieldValue = (definition: FieldDefinition | undefined, text: string): NormalizedText =>
+  NORMALIZERS[definition?.normalizer ?? 'none'](text);
@@ -0,0 +1,136 @@
+import type { PageResult, TesseractConfig } from '@/utils/pdfProcessor';
+import { openIndexedDB, requestToPromise, transactionDone } from '@/utils/indexedDB';
+
+// Per-page OCR results kept in IndexedDB so reopening or reprocessing a
+// document only recognizes pages whose inputs changed. Entries are keyed by
+// the SHA-256 of the file, a hash of everything that affects recognition,
+// and the page number.
+
+const DB_NAME = 'title-vault-ocr-cache';
+const STORE_NAME = 'pages';
+const DB_VERSION = 1;
+
+// Bump when the stored page format or the rendering pipeline changes so
+// older results are no longer served
+const CACHE_FORMAT = 1;
+
+// Results older than this are dropped the first time the cache is opened
+const MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+export type CachedPage = Omit<PageResult, 'pageNumber' | 'durationMs' | 'cached'>;
+
+interface CacheEntry {
+  key: string;
+  fileHash: string;
+  pageNumber: number;
+  createdAt: number;
+  page: CachedPage;
+}
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+const sha256 = async (data: BufferSource): Promise<string> =>
+  toHex(await crypto.subtle.digest('SHA-256', data));
+
+export const hashFile = async (file: File): Promise<string> =>
+  sha256(await file.arrayBuffer());
+
+// JSON with object keys sorted, so equal configs always hash the same
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+export const hashConfig = (config: TesseractConfig): Promise<string> =>
+  sha256(new TextEncoder().encode(stableStringify({ format: CACHE_FORMAT, config })));
+
+let database: Promise<IDBDatabase> | null = null;
+
+const pruneExpired = async (db: IDBDatabase) => {
+  const transaction = db.transaction(STORE_NAME, 'readwrite');
+  const expired = IDBKeyRange.upperBound(Date.now() - MAX_AGE_MS);
+  transaction.objectStore(STORE_NAME).index('createdAt').openCursor(expired).onsuccess = (event) => {
+    const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+    if (cursor) {
+      cursor.delete();
+      cursor.continue();
+    }
+  };
+  await transactionDone(transaction);
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  database ??= (async () => {
+    const db = await openIndexedDB(DB_NAME, DB_VERSION, (upgrading) => {
+      const store = upgrading.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      store.createIndex('fileHash', 'fileHash');
+      store.createIndex('createdAt', 'createdAt');
+    });
+    await pruneExpired(db).catch(error => console.warn("Failed to prune the OCR cache:", error));
+    return db;
+  })().catch((error) => {
+    database = null;
+    throw error;
+  });
+  return database;
+};
+
+const entryKey = (fileHash: string, configHash: string, pageNumber: number) =>
+  `${fileHash}:${configHash}:${pageNumber}`;
+
+// Resolves to null on a miss. The cache is only ever an optimization, so
+// storage errors are logged and treated as misses.
+export const getCachedPage = async (
+  fileHash: string,
+  configHash: string,
+  pageNumber: number
+): Promise<CachedPage | null> => {
+  try {
+    const db = await openDatabase();
+    const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    const entry = await requestToPromise<CacheEntry | undefined>(store.get(entryKey(fileHash, configHash, pageNumber)));
+    return entry?.page ?? null;
+  } catch (error) {
+    console.warn(`Failed to read page ${pageNumber} from the OCR cache:`, error);
+    return null;
+  }
+};
+
+export const putCachedPage = async (
+  fileHash: string,
+  configHash: string,
+  pageNumber: number,
+  page: CachedPage
+): Promise<void> => {
+  try {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const entry: CacheEntry = {
+      key: entryKey(fileHash, configHash, pageNumber),
+      fileHash,
+      pageNumber,
+      createdAt: Date.now(),
+      page
+    };
+    transaction.objectStore(STORE_NAME).put(entry);
+    await transactionDone(transaction);
+  } catch (error) {
+    console.warn(`Failed to store page ${pageNumber} in the OCR cache:`, error);
+  }
+};
+
+export const clearOCRCache = async (): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORE_NAME, 'readwrite');
+  transaction.objectStore(STORE_NAME).clear();
+  await transactionDone(transaction);
+};
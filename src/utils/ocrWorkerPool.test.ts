@@ -0,0 +1,179 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import Tesseract from 'tesseract.js';
+import type { TesseractConfig } from '@/utils/pdfProcessor';
+import {
+  buildWorkerParameters,
+  getOCRScheduler,
+  OCRJobCancelledError,
+  OCRJobTimeoutError,
+  terminateOCRWorkers
+} from '@/utils/ocrWorkerPool';
+
+// Workers that recognize nothing until a test finishes their job
+const { createdWorkers } = vi.hoisted(() => ({
+  createdWorkers: [] as {
+    language: string;
+    jobs: { image: unknown; finish: () => void }[];
+    setParameters: ReturnType<typeof vi.fn>;
+    recognize: ReturnType<typeof vi.fn>;
+    terminate: ReturnType<typeof vi.fn>;
+  }[]
+}));
+
+vi.mock('tesseract.js', async (importOriginal) => {
+  const actual = await importOriginal<{ default: typeof Tesseract }>();
+  const createWorker = async (language: string) => {
+    const jobs: { image: unknown; finish: () => void }[] = [];
+    const worker = {
+      language,
+      jobs,
+      setParameters: vi.fn(async () => {}),
+      recognize: vi.fn((image: unknown) =>
+        new Promise(resolve => jobs.push({ image, finish: () => resolve({ data: { text: `${language}:${image}` } }) }))
+      ),
+      terminate: vi.fn(async () => {})
+    };
+    createdWorkers.push(worker);
+    return worker;
+  };
+  return { default: { ...actual.default, createWorker } };
+});
+
+// Shaped like the contract and singleLine entries of TESSERACT_PRESETS
+const contractPreset: TesseractConfig = {
+  language: 'eng',
+  pageSegMode: 6,
+  preserveInterwordSpaces: true,
+  tesseditCharWhitelist: 'ABCabc0123456789.,$'
+};
+
+const singleLinePreset: TesseractConfig = {
+  language: 'eng',
+  pageSegMode: 7,
+  preserveInterwordSpaces: true
+};
+
+describe('buildWorkerParameters', () => {
+  it('gives different recognizer settings for different presets', () => {
+    const contract = buildWorkerParameters(contractPreset);
+    const singleLine = buildWorkerParameters(singleLinePreset);
+
+    expect(contract).not.toEqual(singleLine);
+    expect(contract.tessedit_pageseg_mode).toBe('6');
+    expect(singleLine.tessedit_pageseg_mode).toBe('7');
+  });
+
+  it('maps every preset setting onto its Tesseract parameter', () => {
+    expect(buildWorkerParameters({
+      language: 'eng',
+      pageSegMode: 11,
+      tesseditCharWhitelist: '0123456789',
+      tesseditCharBlacklist: '|',
+      preserveInterwordSpaces: true
+    })).toEqual({
+      tessedit_pageseg_mode: '11',
+      tessedit_char_whitelist: '0123456789',
+      tessedit_char_blacklist: '|',
+      preserve_interword_spaces: '1'
+    });
+  });
+
+  it('falls back to the legacy whiteList and blackList settings', () => {
+    const parameters = buildWorkerParameters({ language: 'eng', whiteList: 'ABC', blackList: 'xyz' });
+
+    expect(parameters.tessedit_char_whitelist).toBe('ABC');
+    expect(parameters.tessedit_char_blacklist).toBe('xyz');
+  });
+
+  it('resets settings a preset leaves out, so a reused worker keeps nothing from the last one', () => {
+    expect(buildWorkerParameters({ language: 'eng' })).toEqual({
+      tessedit_pageseg_mode: String(Tesseract.PSM.SINGLE_BLOCK),
+      tessedit_char_whitelist: '',
+      tessedit_char_blacklist: '',
+      preserve_interword_spaces: '0'
+    });
+  });
+});
+
+describe('getOCRScheduler', () => {
+  afterEach(async () => {
+    await terminateOCRWorkers();
+    createdWorkers.length = 0;
+  });
+
+  it('keeps a pool with other settings up until the runs using it are over', async () => {
+    const queueRun = await getOCRScheduler({ language: 'eng' }, 1);
+    const firstPage = queueRun.recognize('page-1');
+    const secondPage = queueRun.recognize('page-2');
+    const [englishWorker] = createdWorkers;
+    await vi.waitFor(() => expect(englishWorker.jobs).toHaveLength(1));
+
+    // A region read in another language while the queue is still running
+    const regionRun = await getOCRScheduler({ language: 'spa' }, 1);
+    const region = regionRun.recognize('region');
+    const spanishWorker = createdWorkers[1];
+    await vi.waitFor(() => expect(spanishWorker.jobs).toHaveLength(1));
+
+    englishWorker.jobs[0].finish();
+    await expect(firstPage).resolves.toMatchObject({ data: { text: 'eng:page-1' } });
+    await vi.waitFor(() => expect(englishWorker.jobs).toHaveLength(2));
+    englishWorker.jobs[1].finish();
+    await expect(secondPage).resolves.toMatchObject({ data: { text: 'eng:page-2' } });
+    spanishWorker.jobs[0].finish();
+    await expect(region).resolves.toMatchObject({ data: { text: 'spa:region' } });
+    regionRun.release();
+
+    expect(englishWorker.terminate).not.toHaveBeenCalled();
+    queueRun.release();
+    expect(englishWorker.terminate).toHaveBeenCalledOnce();
+    expect(spanishWorker.terminate).not.toHaveBeenCalled();
+  });
+
+  it('stops a pool with other settings at once when no run is using it', async () => {
+    const first = await getOCRScheduler({ language: 'eng' }, 1);
+    first.release();
+    await getOCRScheduler({ language: 'spa' }, 1);
+
+    expect(createdWorkers[0].terminate).toHaveBeenCalledOnce();
+  });
+
+  it('replaces only the worker a timed out job was stuck on', async () => {
+    const run = await getOCRScheduler({ language: 'eng' }, 2);
+    const [stuckWorker, otherWorker] = createdWorkers;
+    const stuck = run.recognize('stuck', undefined, 20);
+    const other = run.recognize('other');
+
+    await expect(stuck).rejects.toBeInstanceOf(OCRJobTimeoutError);
+    expect(stuckWorker.terminate).toHaveBeenCalledOnce();
+    expect(otherWorker.terminate).not.toHaveBeenCalled();
+
+    // The replacement takes the next job
+    await vi.waitFor(() => expect(createdWorkers).toHaveLength(3));
+    const next = run.recognize('next');
+    otherWorker.jobs[0].finish();
+    await expect(other).resolves.toMatchObject({ data: { text: 'eng:other' } });
+    await vi.waitFor(() => expect(createdWorkers[2].jobs).toHaveLength(1));
+    createdWorkers[2].jobs[0].finish();
+    await expect(next).resolves.toMatchObject({ data: { text: 'eng:next' } });
+  });
+
+  it('drops only the cancelled run\'s waiting jobs', async () => {
+    const cancelledRun = await getOCRScheduler({ language: 'eng' }, 1);
+    const otherRun = await getOCRScheduler({ language: 'eng' }, 1);
+    const [worker] = createdWorkers;
+    const running = cancelledRun.recognize('running');
+    const waiting = cancelledRun.recognize('waiting');
+    const otherJob = otherRun.recognize('other');
+    await vi.waitFor(() => expect(worker.jobs).toHaveLength(1));
+
+    cancelledRun.cancel();
+    await expect(waiting).rejects.toBeInstanceOf(OCRJobCancelledError);
+    expect(worker.terminate).not.toHaveBeenCalled();
+
+    worker.jobs[0].finish();
+    await running;
+    await vi.waitFor(() => expect(worker.jobs).toHaveLength(2));
+    worker.jobs[1].finish();
+    await expect(otherJob).resolves.toMatchObject({ data: { text: 'eng:other' } });
+  });
+});
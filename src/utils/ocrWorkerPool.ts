@@ -0,0 +1,379 @@
+import Tesseract from 'tesseract.js';
+import type { TesseractConfig } from '@/utils/pdfProcessor';
+
+// Each worker holds its own copy of the language data and WASM heap, so the
+// default pool stays small even on machines with many cores.
+const MAX_DEFAULT_WORKERS = 4;
+
+export const getDefaultWorkerCount = (): number => {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency : undefined;
+  return Math.max(1, Math.min(cores || 1, MAX_DEFAULT_WORKERS));
+};
+
+// Map a TesseractConfig onto the recognizer parameters of a worker. Every
+// parameter is always set so a reused worker never keeps values from a
+// previous preset.
+export const buildWorkerParameters = (config: TesseractConfig): Partial<Tesseract.WorkerParams> => ({
+  tessedit_pageseg_mode: String(config.pageSegMode ?? Tesseract.PSM.SINGLE_BLOCK) as Tesseract.PSM,
+  tessedit_char_whitelist: config.tesseditCharWhitelist ?? config.whiteList ?? '',
+  tessedit_char_blacklist: config.tesseditCharBlacklist ?? config.blackList ?? '',
+  preserve_interword_spaces: config.preserveInterwordSpaces ? '1' : '0'
+});
+
+// The engine mode can only be chosen when a worker is created
+const getEngineMode = (config: TesseractConfig): Tesseract.OEM =>
+  config.ocrEngineMode ?? Tesseract.OEM.DEFAULT;
+
+// Progress callbacks for in-flight recognize jobs, keyed by job ID. The
+// worker logger is fixed at creation, so it dispatches through this map.
+const ocrProgressListeners = new Map<string, (progress: number) => void>();
+
+// Rejects the jobs a run still had waiting when it was cancelled, and every
+// waiting job when the workers are stopped
+export class OCRJobCancelledError extends Error {
+  constructor() {
+    super("OCR job cancelled");
+    this.name = "OCRJobCancelledError";
+  }
+}
+
+// Rejects a job that ran longer than its timeout. The worker it was stuck on
+// is replaced; the pool's other workers and jobs carry on.
+export class OCRJobTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`OCR timed out after ${Math.round(timeoutMs / 1000)}s`);
+    this.name = "OCRJobTimeoutError";
+  }
+}
+
+// One caller's use of the pool: a processing run or a region read. Runs
+// share the workers, so cancelling one must not touch the others' jobs.
+interface OCRRun {
+  // Jobs of this run currently on a worker
+  running: number;
+  cancelled: boolean;
+}
+
+// A recognize job waiting for an idle worker. Jobs carry their own
+// recognizer parameters because runs with different presets, such as a
+// region read during a full run, share the same workers.
+interface PendingJob {
+  run: OCRRun;
+  image: Tesseract.ImageLike;
+  parameters: Partial<Tesseract.WorkerParams>;
+  parametersKey: string;
+  onProgress?: (progress: number) => void;
+  timeoutMs?: number;
+  resolve: (result: Tesseract.RecognizeResult) => void;
+  reject: (error: unknown) => void;
+}
+
+interface PoolWorker {
+  worker: Tesseract.Worker;
+  busy: boolean;
+  // Key of the parameters last set on the worker
+  parametersKey: string | null;
+}
+
+interface ManagedPool {
+  workers: PoolWorker[];
+  // Jobs of every run, oldest first
+  queue: PendingJob[];
+  language: string;
+  engineMode: Tesseract.OEM;
+  // Runs that have not been released or cancelled yet
+  runs: Set<OCRRun>;
+  // Set once a pool with other settings has taken over. A retired pool
+  // takes no new runs and is stopped as soon as its last run is over.
+  retired: boolean;
+  // The workers were terminated
+  stopped: boolean;
+}
+
+// Long-lived pool shared by every processing run. Creating a worker loads the
+// language data, so the pool is only rebuilt when the language, engine mode
+// or size changes.
+let managedPool: Promise<ManagedPool> | null = null;
+
+let jobCounter = 0;
+
+const createWorker = (language: string, engineMode: Tesseract.OEM): Promise<Tesseract.Worker> =>
+  Tesseract.createWorker(language, engineMode, {
+    logger: (m) => {
+      if (m.status === 'recognizing text') {
+        ocrProgressListeners.get(m.userJobId)?.(m.progress);
+      }
+    }
+  });
+
+const createPool = async (config: TesseractConfig, workerCount: number): Promise<ManagedPool> => {
+  const engineMode = getEngineMode(config);
+  const workers = await Promise.all(
+    Array.from({ length: workerCount }, () => createWorker(config.language, engineMode))
+  );
+
+  return {
+    workers: workers.map(worker => ({ worker, busy: false, parametersKey: null })),
+    queue: [],
+    language: config.language,
+    engineMode,
+    runs: new Set(),
+    retired: false,
+    stopped: false
+  };
+};
+
+// Reject the waiting jobs and stop every worker of `pool`
+const stopPool = async (pool: ManagedPool): Promise<void> => {
+  if (pool.stopped) {
+    return;
+  }
+  pool.retired = true;
+  pool.stopped = true;
+  pool.queue.splice(0).forEach(job => job.reject(new OCRJobCancelledError()));
+  try {
+    await Promise.all(pool.workers.map(({ worker }) => worker.terminate()));
+  } catch (error) {
+    console.warn("Failed to terminate Tesseract workers:", error);
+  }
+};
+
+// A worker stuck on a job cannot be interrupted, so it is stopped and a new
+// one takes its place in the pool
+const replaceWorker = async (pool: ManagedPool, entry: PoolWorker): Promise<void> => {
+  const stuck = entry.worker;
+  entry.parametersKey = null;
+  stuck.terminate().catch(error => console.warn("Failed to terminate a stuck Tesseract worker:", error));
+  if (!pool.stopped) {
+    entry.worker = await createWorker(pool.language, pool.engineMode);
+  }
+};
+
+const runJob = async (pool: ManagedPool, entry: PoolWorker, job: PendingJob): Promise<void> => {
+  const jobId = `ocr-job-${++jobCounter}`;
+  if (job.onProgress) {
+    ocrProgressListeners.set(jobId, job.onProgress);
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let timedOut = false;
+  try {
+    // The worker is this job's alone until it finishes, so its parameters
+    // cannot change under it
+    const recognize = async () => {
+      if (entry.parametersKey !== job.parametersKey) {
+        entry.parametersKey = null;
+        await entry.worker.setParameters(job.parameters);
+        entry.parametersKey = job.parametersKey;
+      }
+      // The job ID is what the worker logger reports progress under
+      return entry.worker.recognize(job.image, {}, { text: true, blocks: true }, jobId);
+    };
+    const timeout = job.timeoutMs === undefined ? [] : [new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        timedOut = true;
+        reject(new OCRJobTimeoutError(job.timeoutMs!));
+      }, job.timeoutMs);
+    })];
+    job.resolve(await Promise.race([recognize(), ...timeout]));
+  } catch (error) {
+    job.reject(error);
+  } finally {
+    clearTimeout(timer);
+    ocrProgressListeners.delete(jobId);
+  }
+
+  if (timedOut) {
+    await replaceWorker(pool, entry).catch(error => {
+      console.warn("Failed to replace a stuck Tesseract worker:", error);
+      pool.workers = pool.workers.filter(other => other !== entry);
+    });
+  }
+};
+
+// Stop a retired pool once nothing uses it any more
+const stopIfUnused = (pool: ManagedPool) => {
+  if (pool.retired && pool.runs.size === 0 && pool.workers.every(entry => !entry.busy)) {
+    stopPool(pool);
+  }
+};
+
+// Hand waiting jobs to idle workers, oldest first
+const dispatch = (pool: ManagedPool) => {
+  for (const entry of pool.workers) {
+    const job = entry.busy ? undefined : pool.queue.shift();
+    if (!job) {
+      continue;
+    }
+
+    entry.busy = true;
+    job.run.running++;
+    runJob(pool, entry, job).finally(() => {
+      entry.busy = false;
+      job.run.running--;
+      dispatch(pool);
+      stopIfUnused(pool);
+    });
+  }
+};
+
+const getOCRPool = async (config: TesseractConfig, workerCount: number): Promise<ManagedPool> => {
+  if (managedPool) {
+    const current = await managedPool.catch(() => null);
+    if (
+      current &&
+      !current.retired &&
+      current.language === config.language &&
+      current.engineMode === getEngineMode(config) &&
+      current.workers.length === workerCount
+    ) {
+      return current;
+    }
+    // Runs still on the old pool keep it until they are over
+    if (current && !current.retired) {
+      current.retired = true;
+      stopIfUnused(current);
+    }
+  }
+
+  const pending = createPool(config, workerCount);
+  managedPool = pending;
+
+  try {
+    return await pending;
+  } catch (error) {
+    managedPool = null;
+    throw error;
+  }
+};
+
+export interface OCRPool {
+  recognize: (
+    image: Tesseract.ImageLike,
+    onProgress?: (progress: number) => void,
+    timeoutMs?: number
+  ) => Promise<Tesseract.RecognizeResult>;
+  // Drop this run's waiting jobs. Its jobs already on a worker finish and
+  // are ignored, unless no other run is using the pool, in which case the
+  // workers are stopped right away.
+  cancel: () => void;
+  // Done with the pool; the workers stay up for the next run
+  release: () => void;
+  size: number;
+}
+
+// Start a run on the shared worker pool whose jobs are recognized with the
+// parameters of `config`. Jobs wait in the pool's queue until a worker is
+// idle; a job given a timeout is rejected with OCRJobTimeoutError when it
+// runs longer. Call `release` or `cancel` when the run is over.
+export const getOCRScheduler = async (
+  config: TesseractConfig,
+  workerCount: number = getDefaultWorkerCount()
+): Promise<OCRPool> => {
+  const pool = await getOCRPool(config, Math.max(1, Math.floor(workerCount)));
+  const parameters = buildWorkerParameters(config);
+  const parametersKey = JSON.stringify(parameters);
+
+  const run: OCRRun = { running: 0, cancelled: false };
+  pool.runs.add(run);
+
+  return {
+    size: pool.workers.length,
+    recognize: (image, onProgress, timeoutMs) => {
+      if (run.cancelled || pool.stopped) {
+        return Promise.reject(new OCRJobCancelledError());
+      }
+      return new Promise((resolve, reject) => {
+        pool.queue.push({ run, image, parameters, parametersKey, onProgress, timeoutMs, resolve, reject });
+        dispatch(pool);
+      });
+    },
+    cancel: () => {
+      run.cancelled = true;
+      pool.runs.delete(run);
+
+      const waiting = pool.queue.filter(job => job.run === run);
+      pool.queue = pool.queue.filter(job => job.run !== run);
+      waiting.forEach(job => job.reject(new OCRJobCancelledError()));
+
+      // Nothing else needs the workers busy with this run's jobs
+      if (run.running > 0 && pool.runs.size === 0) {
+        stopPool(pool);
+      } else {
+        stopIfUnused(pool);
+      }
+    },
+    release: () => {
+      pool.runs.delete(run);
+      stopIfUnused(pool);
+    }
+  };
+};
+
+// Orientation and script detection only exists in the legacy engine and
+// needs the separate "osd" model, so it runs on its own worker instead of
+// the recognition pool. Created on first use and kept alongside the pool.
+let osdWorker: Promise<Tesseract.Worker> | null = null;
+
+const getOSDWorker = (): Promise<Tesseract.Worker> => {
+  osdWorker ??= Tesseract.createWorker('osd', Tesseract.OEM.TESSERACT_ONLY, {
+    legacyCore: true,
+    legacyLang: true
+  }).catch((error) => {
+    osdWorker = null;
+    throw error;
+  });
+  return osdWorker;
+};
+
+export interface PageOrientation {
+  // Clockwise rotation that turns the image upright: 0, 90, 180 or 270
+  degrees: number;
+  confidence: number;
+  script: string | null;
+}
+
+// Detect which way up the text in `image` is. Resolves to null when
+// Tesseract cannot tell, e.g. on pages with too little text.
+export const detectOrientation = async (image: Tesseract.ImageLike): Promise<PageOrientation | null> => {
+  const worker = await getOSDWorker();
+  const { data } = await worker.detect(image);
+  if (data.orientation_degrees === null) {
+    return null;
+  }
+
+  return {
+    degrees: data.orientation_degrees,
+    confidence: data.orientation_confidence ?? 0,
+    script: data.script
+  };
+};
+
+const terminateOSDWorker = async (): Promise<void> => {
+  if (!osdWorker) {
+    return;
+  }
+
+  const pending = osdWorker;
+  osdWorker = null;
+  try {
+    await (await pending).terminate();
+  } catch (error) {
+    console.warn("Failed to terminate orientation detection worker:", error);
+  }
+};
+
+export const terminateOCRWorkers = async (): Promise<void> => {
+  await terminateOSDWorker();
+
+  if (!managedPool) {
+    return;
+  }
+
+  const pending = managedPool;
+  managedPool = null;
+  const pool = await pending.catch(() => null);
+  if (pool) {
+    await stopPool(pool);
+  }
+};
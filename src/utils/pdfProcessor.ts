@@ -1,19 +1,101 @@
 
 import * as pdfjsLib from 'pdfjs-dist';
-import Tesseract from 'tesseract.js';
-
-// Configure PDF.js worker
-pdfjsLib.GlobalWorkerOptions.workerSrc = '/node_modules/pdfjs-dist/build/pdf.worker.min.mjs';
+import type { PageViewport, PDFPageProxy } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import type Tesseract from 'tesseract.js';
+import { detectOrientation, getDefaultWorkerCount, getOCRScheduler, type OCRPool } from '@/utils/ocrWorkerPool';
+import { preprocessCanvas, rotateCanvas, unrotateBox, type PreprocessingConfig } from '@/utils/imagePreprocessing';
+import { getCachedPage, hashConfig, hashFile, putCachedPage } from '@/utils/ocrCache';
+import { unionBoxes } from '@/utils/boundingBox';
+import { debugLog } from '@/utils/debugLog';
+import { openDocument, type DocumentSource, type PasswordCallback, type RenderHandle, type SourcePage } from '@/utils/inputAdapters';
 
 export interface PDFProcessingProgress {
-  step: 'loading' | 'converting' | 'ocr' | 'fallback';
+  step: 'loading' | 'textLayer' | 'converting' | 'ocr' | 'fallback' | 'cancelled';
   pageNumber?: number;
   totalPages?: number;
+  // Pages being processed in this run; fewer than totalPages when only a
+  // page range was requested
+  selectedPages?: number;
   ocrProgress?: number;
+  completedPages?: number;
   message?: string;
   error?: string;
 }
 
+// Pixel box on a page image rendered at the page's `renderScale`, with the
+// origin at the top left
+export interface BoundingBox {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+export interface OCRWord {
+  text: string;
+  confidence: number;
+  bbox: BoundingBox;
+}
+
+export interface OCRLine {
+  text: string;
+  confidence: number;
+  bbox: BoundingBox;
+  words: OCRWord[];
+}
+
+export interface PageResult {
+  pageNumber: number;
+  text: string;
+  confidence: number;
+  // Where the text came from, or why there is none
+  status: 'textLayer' | 'ocr' | 'empty' | 'failed';
+  error?: string;
+  // Scale the page was rendered at; bounding boxes are in pixels at this
+  // scale. Text layer pages use 1, i.e. PDF points.
+  renderScale: number;
+  width: number;
+  height: number;
+  durationMs: number;
+  // Image clean-up applied before OCR, in the order it ran
+  preprocessing?: string[];
+  // Clockwise quarter turns, in degrees, applied to make a scanned page
+  // upright before OCR, and the script Tesseract detected on it. Boxes are
+  // still relative to the page as stored in the PDF.
+  rotation?: number;
+  script?: string;
+  // Taken from the OCR cache instead of being recognized again
+  cached?: boolean;
+  lines: OCRLine[];
+  words: OCRWord[];
+}
+
+export interface PDFProcessingResult {
+  pages: PageResult[];
+  // All page text joined in page order, for display and editing
+  text: string;
+  // Average over the pages that produced text
+  confidence: number;
+}
+
+// Thrown when a run is stopped through its AbortSignal
+export class ProcessingCancelledError extends Error {
+  constructor() {
+    super("PDF processing was cancelled.");
+    this.name = "ProcessingCancelledError";
+  }
+}
+
+// Thrown before any work starts when a document exceeds the configured
+// ProcessingLimits, so the reviewer can raise them or pick a page range
+export class ProcessingLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProcessingLimitError";
+  }
+}
+
 export interface TesseractConfig {
   language: string;
   pageSegMode?: number;
@@ -23,6 +105,10 @@ export interface TesseractConfig {
   preserveInterwordSpaces?: boolean;
   tesseditCharWhitelist?: string;
   tesseditCharBlacklist?: string;
+  // Image clean-up applied to rendered pages before recognition
+  preprocessing?: PreprocessingConfig;
+  // Detect upside-down and sideways pages and turn them upright before OCR
+  autoRotate?: boolean;
 }
 
 // Default Tesseract configuration optimized for contracts
@@ -31,6 +117,14 @@ const DEFAULT_TESSERACT_CONFIG: TesseractConfig = {
   pageSegMode: 6, // Uniform block of text
   ocrEngineMode: 3, // Default (both LSTM and legacy)
   preserveInterwordSpaces: true,
+  autoRotate: true,
+  preprocessing: {
+    grayscale: true,
+    binarization: 'none', // Tesseract's own Otsu pass handles clean scans
+    despeckle: false,
+    deskew: true,
+    removeBorders: true
+  },
   // Common characters in contracts
   tesseditCharWhitelist: 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789.,!?@#$%&*()[]{}:;"\'-_/\\+=<>| \n\r\t'
 };
@@ -53,236 +147,846 @@ export const TESSERACT_PRESETS = {
   singleLine: {
     ...DEFAULT_TESSERACT_CONFIG,
     pageSegMode: 7, // Single text line
+    preprocessing: { grayscale: true, binarization: 'none' }
   },
   sparseText: {
     ...DEFAULT_TESSERACT_CONFIG,
     pageSegMode: 11, // Sparse text
+  },
+  faxScan: {
+    ...DEFAULT_TESSERACT_CONFIG,
+    pageSegMode: 6, // Uniform block of text
+    // Faxes and photocopies have grey backgrounds, noise and dark edges
+    preprocessing: {
+      grayscale: true,
+      binarization: 'sauvola',
+      despeckle: true,
+      deskew: true,
+      removeBorders: true
+    }
+  }
+} satisfies Record<string, TesseractConfig>;
+
+export interface PDFProcessingOptions {
+  // Use the PDF's embedded text when it looks trustworthy and only OCR the
+  // remaining pages. Disable to force OCR on every page.
+  useTextLayer?: boolean;
+  // Number of pages rendered and recognized at once. Defaults to the
+  // number of CPU cores, capped to keep memory in check.
+  workerCount?: number;
+  // Aborting stops every page in flight, drops this run's queued OCR jobs
+  // and rejects with ProcessingCancelledError.
+  signal?: AbortSignal;
+  // Only process these pages (1-based, inclusive). Clamped to the document.
+  pageRange?: PageRange;
+  limits?: ProcessingLimits;
+  // Password to try first for encrypted PDFs, and how to ask for another
+  // one. Without onPassword an encrypted PDF fails with PDFPasswordError.
+  password?: string;
+  onPassword?: PasswordCallback;
+  // Reuse OCR results stored for the same file, settings and page. On by
+  // default.
+  useCache?: boolean;
+}
+
+export interface PageRange {
+  first: number;
+  last: number;
+}
+
+// Guards against documents that would take unreasonably long to process.
+// maxPages counts the pages selected for the run, not the whole document.
+export interface ProcessingLimits {
+  maxPages: number;
+  maxFileSizeMB: number;
+}
+
+// Pages are streamed through a fixed number of canvases, so memory use does
+// not grow with page count; these only bound processing time.
+export const DEFAULT_PROCESSING_LIMITS: ProcessingLimits = {
+  maxPages: 200,
+  maxFileSizeMB: 250
+};
+
+const DEFAULT_PROCESSING_OPTIONS: PDFProcessingOptions = {
+  useTextLayer: true
+};
+
+type PageOutcome = Omit<PageResult, 'pageNumber' | 'durationMs'>;
+
+const OCR_RENDER_SCALE = 3.0; // Increased from 2.0 for better text recognition
+
+// Tesseract's orientation confidence below which a page is left as is.
+// Sparse pages such as signature blocks often get a confident-looking but
+// wrong answer close to zero.
+const MIN_ORIENTATION_CONFIDENCE = 2;
+
+const emptyPage = (status: 'empty' | 'failed', error?: string): PageOutcome => ({
+  text: '',
+  confidence: 0,
+  status,
+  error,
+  renderScale: 1,
+  width: 0,
+  height: 0,
+  lines: [],
+  words: []
+});
+
+// Join page results into a single document, marking where each page starts
+export const joinPageText = (pages: PageResult[]): string =>
+  pages.map(page => {
+    if (page.status === 'failed') {
+      return `\n--- Page ${page.pageNumber} (Error: ${page.error}) ---\n`;
+    }
+    if (page.status === 'empty') {
+      return `\n--- Page ${page.pageNumber} (No text found) ---\n`;
+    }
+    return `\n--- Page ${page.pageNumber} ---\n${page.text}\n`;
+  }).join('');
+
+// Pages finish out of order when processed concurrently. Progress for the
+// earliest unfinished page is forwarded as it happens; later pages only keep
+// their most recent event, which is replayed once every page before them
+// has completed. Listeners therefore never see the page number go backwards.
+const createOrderedProgress = (
+  onProgress: ((progress: PDFProcessingProgress) => void) | undefined,
+  totalPages: number,
+  pageNumbers: number[]
+) => {
+  const pending = new Map<number, PDFProcessingProgress>();
+  const finished = new Set<number>();
+  let headIndex = 0;
+  const selectedPages = pageNumbers.length;
+
+  const emit = (pageNum: number, progress: PDFProcessingProgress) => {
+    const event = { ...progress, totalPages, selectedPages, completedPages: finished.size };
+    if (pageNum === pageNumbers[headIndex]) {
+      onProgress?.(event);
+    } else {
+      pending.set(pageNum, event);
+    }
+  };
+
+  const complete = (pageNum: number) => {
+    finished.add(pageNum);
+    pending.delete(pageNum);
+    while (headIndex < selectedPages && finished.has(pageNumbers[headIndex])) {
+      headIndex++;
+    }
+
+    const next = pending.get(pageNumbers[headIndex]);
+    if (next) {
+      pending.delete(pageNumbers[headIndex]);
+      onProgress?.({ ...next, completedPages: finished.size });
+    }
+  };
+
+  return { emit, complete };
+};
+
+// Rejects as soon as `signal` aborts; never settles without one. Raced
+// against every long-running step so cancellation takes effect immediately.
+const whenAborted = (signal?: AbortSignal): Promise<never> => {
+  const aborted = new Promise<never>((_, reject) => {
+    if (!signal) {
+      return;
+    }
+    if (signal.aborted) {
+      reject(new ProcessingCancelledError());
+      return;
+    }
+    signal.addEventListener('abort', () => reject(new ProcessingCancelledError()), { once: true });
+  });
+  // Callers may finish before the signal fires, so never leave this unhandled
+  aborted.catch(() => {});
+  return aborted;
+};
+
+// Settles like `promise`, or rejects with the error from `onTimeout` if it
+// takes longer than `ms`. The timer is cleared as soon as the race is over,
+// so `onTimeout` only runs when the timeout actually wins.
+const withTimeout = async <T>(promise: Promise<T>, ms: number, onTimeout: () => Error): Promise<T> => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(onTimeout()), ms);
+  });
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+// Run `task` for every item with at most `limit` in flight at once
+const runWithConcurrency = async <T>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<void>
+): Promise<void> => {
+  let nextIndex = 0;
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (nextIndex < items.length) {
+      const item = items[nextIndex++];
+      await task(item);
+    }
+  });
+  await Promise.all(runners);
+};
+
+// Canvases handed out to pages in flight and returned once a page is done.
+// At most one per concurrent page is ever created, so rendering a long
+// document reuses the same few backing stores instead of allocating one per
+// page.
+const createCanvasPool = () => {
+  const idle: HTMLCanvasElement[] = [];
+  const all: HTMLCanvasElement[] = [];
+
+  return {
+    acquire: (): HTMLCanvasElement => {
+      const canvas = idle.pop();
+      if (canvas) {
+        return canvas;
+      }
+      const created = document.createElement('canvas');
+      all.push(created);
+      return created;
+    },
+    release: (canvas: HTMLCanvasElement) => {
+      idle.push(canvas);
+    },
+    // Free every backing store right away instead of waiting for garbage
+    // collection
+    destroy: () => {
+      all.forEach(canvas => {
+        canvas.width = 0;
+        canvas.height = 0;
+        canvas.remove();
+      });
+      all.length = 0;
+      idle.length = 0;
+    }
+  };
+};
+
+// The pages a run covers, after clamping `range` to the document
+export const resolvePageNumbers = (totalPages: number, range?: PageRange): number[] => {
+  const first = Math.max(1, Math.floor(range?.first ?? 1));
+  const last = Math.min(totalPages, Math.floor(range?.last ?? totalPages));
+  return Array.from({ length: Math.max(0, last - first + 1) }, (_, index) => first + index);
+};
+
+// Embedded text is exact, so it is reported with full confidence
+const TEXT_LAYER_CONFIDENCE = 100;
+
+// Below this many non-whitespace characters a page is treated as scanned.
+// Scanned pages often still carry a short text layer such as an e-sign
+// envelope ID stamped across the top.
+const MIN_TEXT_LAYER_CHARS = 100;
+
+// Split a pdf.js text item into words. Glyph positions are not exposed, so
+// word boxes are interpolated across the item assuming even glyph widths.
+const splitTextItem = (item: TextItem, viewport: PageViewport): OCRWord[] => {
+  const [, , c, d, left, baseline] = pdfjsLib.Util.transform(viewport.transform, item.transform);
+  const fontHeight = Math.hypot(c, d);
+  const charWidth = item.str.length > 0 ? (item.width * viewport.scale) / item.str.length : 0;
+
+  const words: OCRWord[] = [];
+  const wordPattern = /\S+/g;
+  let match: RegExpExecArray | null;
+  while ((match = wordPattern.exec(item.str)) !== null) {
+    words.push({
+      text: match[0],
+      confidence: TEXT_LAYER_CONFIDENCE,
+      bbox: {
+        x0: left + match.index * charWidth,
+        y0: baseline - fontHeight,
+        x1: left + (match.index + match[0].length) * charWidth,
+        y1: baseline
+      }
+    });
+  }
+  return words;
+};
+
+// Pull the embedded text of a page, rebuilding line breaks from the item
+// positions when pdf.js does not flag them.
+const extractTextLayer = async (page: PDFPageProxy): Promise<PageOutcome> => {
+  const viewport = page.getViewport({ scale: 1 });
+  const textContent = await page.getTextContent();
+  const lines: OCRLine[] = [];
+  let current: { text: string; words: OCRWord[] } | null = null;
+  let lastY: number | null = null;
+
+  const endLine = () => {
+    if (current && current.words.length > 0) {
+      lines.push({
+        text: current.text.trim(),
+        confidence: TEXT_LAYER_CONFIDENCE,
+        bbox: unionBoxes(current.words.map(word => word.bbox)),
+        words: current.words
+      });
+    }
+    current = null;
+  };
+
+  for (const item of textContent.items) {
+    if (!('str' in item)) {
+      continue;
+    }
+
+    const y = item.transform[5];
+    if (lastY !== null && Math.abs(y - lastY) > Math.max(item.height, 1) / 2) {
+      endLine();
+    }
+
+    current ??= { text: '', words: [] };
+    current.text += item.str;
+    current.words.push(...splitTextItem(item, viewport));
+    if (item.hasEOL) {
+      endLine();
+    }
+    lastY = y;
+  }
+  endLine();
+
+  return {
+    text: lines.map(line => line.text).join('\n'),
+    confidence: TEXT_LAYER_CONFIDENCE,
+    status: 'textLayer',
+    renderScale: 1,
+    width: viewport.width,
+    height: viewport.height,
+    lines,
+    words: lines.flatMap(line => line.words)
+  };
+};
+
+// Flatten Tesseract's block/paragraph/line hierarchy into lines of words
+const collectOCRLines = (data: Tesseract.Page): OCRLine[] =>
+  (data.blocks ?? [])
+    .flatMap(block => block.paragraphs)
+    .flatMap(paragraph => paragraph.lines)
+    .map(line => ({
+      text: line.text.trim(),
+      confidence: line.confidence,
+      bbox: { ...line.bbox },
+      words: line.words.map(word => ({
+        text: word.text,
+        confidence: word.confidence,
+        bbox: { ...word.bbox }
+      }))
+    }));
+
+// Decide whether a text layer is good enough to skip OCR. Broken font
+// encodings produce control characters, private-use glyphs or runs of
+// consonant soup, all of which are caught here.
+const isUsableTextLayer = (text: string): boolean => {
+  const visible = text.replace(/\s/g, '');
+  if (visible.length < MIN_TEXT_LAYER_CHARS) {
+    return false;
+  }
+
+  const garbage = Array.from(visible).filter(char => {
+    const code = char.charCodeAt(0);
+    return code < 0x20 || (code >= 0x7f && code <= 0x9f) || (code >= 0xe000 && code <= 0xf8ff) || code === 0xfffd;
+  }).length;
+  if (garbage / visible.length > 0.02) {
+    return false;
+  }
+
+  const expected = visible.match(/[A-Za-z0-9.,;:!?$%&@#'"()[\]/\\\-_+=*<>|§°¢½¼¾’‘“”–—•]/g)?.length ?? 0;
+  if (expected / visible.length < 0.9) {
+    return false;
+  }
+
+  const words = text.match(/[A-Za-z]{3,}/g) ?? [];
+  if (words.length === 0) {
+    return false;
+  }
+  const plausibleWords = words.filter(word => /[aeiouyAEIOUY]/.test(word)).length;
+  return plausibleWords / words.length >= 0.7;
+};
+
+const mapLineBoxes = (lines: OCRLine[], mapBox: (bbox: BoundingBox) => BoundingBox): OCRLine[] =>
+  lines.map(line => ({
+    ...line,
+    bbox: mapBox(line.bbox),
+    words: line.words.map(word => ({ ...word, bbox: mapBox(word.bbox) }))
+  }));
+
+// Longest a page's OCR job may run before its worker is given up on
+const OCR_TIMEOUT_MS = 90000;
+
+// Regions drawn by the reviewer are small, so they are rendered far larger
+// than whole pages to give Tesseract more pixels per glyph
+const REGION_RENDER_SCALE = 5.0;
+
+export interface RegionOCRResult {
+  text: string;
+  confidence: number;
+  pageNumber: number;
+  // The region that was read and the words found in it, in PDF points
+  bbox: BoundingBox;
+  words: OCRWord[];
+}
+
+// OCR a rectangle of a page, given in points from the top left of the page
+// as drawn at scale 1. Works for every input format openDocument accepts.
+export const recognizePDFRegion = async (
+  file: File,
+  pageNumber: number,
+  region: BoundingBox,
+  tesseractConfig: TesseractConfig = TESSERACT_PRESETS.singleLine,
+  password?: string
+): Promise<RegionOCRResult> => {
+  debugLog(`Reading a region of page ${pageNumber}`, region);
+
+  const scale = REGION_RENDER_SCALE;
+  const width = Math.ceil((region.x1 - region.x0) * scale);
+  const height = Math.ceil((region.y1 - region.y0) * scale);
+  if (width < 1 || height < 1) {
+    throw new Error("The selected region is empty.");
+  }
+
+  const source = await openDocument(file, { password });
+  const canvas = document.createElement('canvas');
+
+  try {
+    const page = await source.getPage(pageNumber);
+    try {
+      const context = canvas.getContext('2d');
+      if (!context) {
+        throw new Error("Failed to get canvas context for region OCR.");
+      }
+
+      canvas.width = width;
+      canvas.height = height;
+      context.imageSmoothingEnabled = false;
+
+      // Shift the page so the region's top left corner lands on the origin
+      await page.render(context, scale, { x: region.x0, y: region.y0 }).promise;
+    } finally {
+      page.release();
+    }
+
+    // A hand-drawn region is neither skewed nor framed by scanner edges
+    preprocessCanvas(canvas, { ...tesseractConfig.preprocessing, deskew: false, removeBorders: false });
+
+    const pool = await getOCRScheduler(tesseractConfig);
+    let result: Tesseract.RecognizeResult;
+    try {
+      result = await pool.recognize(canvas.toDataURL('image/png', 1.0));
+    } finally {
+      pool.release();
+    }
+    const toPoints = (bbox: BoundingBox): BoundingBox => ({
+      x0: region.x0 + bbox.x0 / scale,
+      y0: region.y0 + bbox.y0 / scale,
+      x1: region.x0 + bbox.x1 / scale,
+      y1: region.y0 + bbox.y1 / scale
+    });
+
+    const words = collectOCRLines(result.data)
+      .flatMap(line => line.words)
+      .map(word => ({ ...word, bbox: toPoints(word.bbox) }));
+
+    debugLog(`Region read with ${Math.round(result.data.confidence)}% confidence`);
+
+    return {
+      text: result.data.text.trim(),
+      confidence: result.data.confidence,
+      pageNumber,
+      bbox: region,
+      words
+    };
+  } finally {
+    canvas.width = 0;
+    canvas.height = 0;
+    canvas.remove();
+    source.destroy();
   }
 };
 
 export const processPDFWithOCR = async (
   file: File,
   onProgress?: (progress: PDFProcessingProgress) => void,
-  tesseractConfig: TesseractConfig = DEFAULT_TESSERACT_CONFIG
-): Promise<{ text: string; confidence: number }> => {
-  console.log("=== STARTING BROWSER-COMPATIBLE PDF PROCESSING ===");
-  console.log("File details:", {
-    name: file.name,
-    size: file.size,
-    type: file.type
+  tesseractConfig: TesseractConfig = DEFAULT_TESSERACT_CONFIG,
+  options: PDFProcessingOptions = DEFAULT_PROCESSING_OPTIONS
+): Promise<PDFProcessingResult> => {
+  debugLog(`Processing a ${file.type || 'file'} of ${file.size} bytes`, {
+    language: tesseractConfig.language,
+    pageSegMode: tesseractConfig.pageSegMode
   });
-  console.log("Tesseract config:", tesseractConfig);
   
-  try {
-    // Validate file type
-    if (file.type !== "application/pdf") {
-      throw new Error(`Invalid file type: ${file.type}. Please upload a PDF file.`);
+  const { signal } = options;
+  const aborted = whenAborted(signal);
+  const throwIfCancelled = () => {
+    if (signal?.aborted) {
+      throw new ProcessingCancelledError();
     }
+  };
 
-    // Validate file size (limit to 50MB)
-    if (file.size > 50 * 1024 * 1024) {
-      throw new Error("File too large. Please upload a PDF smaller than 50MB.");
-    }
+  // The worker pool is only started once a page actually needs OCR, so
+  // born-digital documents never pay for loading Tesseract
+  let ocrPool: Promise<OCRPool> | null = null;
 
-    // Load PDF
-    onProgress?.({ step: 'loading', message: 'Loading PDF document...' });
-    const arrayBuffer = await file.arrayBuffer();
-    
-    console.log("PDF loaded into buffer, size:", arrayBuffer.byteLength);
-    
-    // Load PDF with pdfjs
-    let pdf;
-    try {
-      pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-    } catch (pdfError) {
-      console.error("PDF parsing error:", pdfError);
-      throw new Error("Failed to parse PDF. The file may be corrupted or password-protected.");
+  // Drop this run's queued pages rather than letting them run on. Other
+  // runs sharing the workers, such as the background queue, carry on.
+  const onAbort = () => {
+    debugLog("Processing cancelled, dropping its OCR jobs");
+    ocrPool?.then(pool => pool.cancel(), () => {});
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  let source: DocumentSource | undefined;
+  const canvasPool = createCanvasPool();
+  const limits = options.limits ?? DEFAULT_PROCESSING_LIMITS;
+
+  try {
+    throwIfCancelled();
+
+    if (file.size > limits.maxFileSizeMB * 1024 * 1024) {
+      throw new ProcessingLimitError(
+        `File too large (${(file.size / 1024 / 1024).toFixed(1)}MB, limit: ${limits.maxFileSizeMB}MB). Raise the limit in the processing settings to continue.`
+      );
     }
 
-    const totalPages = pdf.numPages;
+    // Open the PDF or image, asking for a password if it is encrypted.
+    // Rejects straight away for file types that are not supported.
+    onProgress?.({ step: 'loading', message: 'Loading document...' });
+    source = await Promise.race([
+      openDocument(file, { password: options.password, onPassword: options.onPassword }),
+      aborted
+    ]);
+    const documentSource = source;
+
+    const totalPages = documentSource.pageCount;
+    debugLog(`Opened ${documentSource.kind} document`);
     
     if (totalPages === 0) {
-      throw new Error("PDF contains no pages.");
+      throw new Error("Document contains no pages.");
     }
 
-    if (totalPages > 20) {
-      throw new Error("PDF has too many pages (limit: 20). Please upload a smaller document.");
+    const pageNumbers = resolvePageNumbers(totalPages, options.pageRange);
+    if (pageNumbers.length === 0) {
+      throw new ProcessingLimitError(
+        `The selected page range is outside the document, which has ${totalPages} page${totalPages === 1 ? '' : 's'}.`
+      );
+    }
+
+    if (pageNumbers.length > limits.maxPages) {
+      throw new ProcessingLimitError(
+        `Too many pages selected (${pageNumbers.length}, limit: ${limits.maxPages}). Choose a page range or raise the limit in the processing settings.`
+      );
     }
     
-    console.log(`PDF has ${totalPages} pages`);
-    
-    let allText = '';
-    let totalConfidence = 0;
-    let processedPages = 0;
-    let failedPages = 0;
-    
-    // Process each page
-    for (let pageNum = 1; pageNum <= totalPages; pageNum++) {
+    const workerCount = Math.max(1, Math.floor(options.workerCount ?? getDefaultWorkerCount()));
+    debugLog(`Document has ${totalPages} pages, processing pages ${pageNumbers[0]}-${pageNumbers[pageNumbers.length - 1]} up to ${workerCount} at once`);
+
+    const progress = createOrderedProgress(onProgress, totalPages, pageNumbers);
+    const pages: PageResult[] = new Array(pageNumbers.length);
+
+    const getPool = () => {
+      ocrPool ??= getOCRScheduler(tesseractConfig, workerCount);
+      return ocrPool;
+    };
+
+    // Cache keys for this file and configuration. Hashing failures only
+    // disable the cache for this run.
+    const cacheKeys = options.useCache === false
+      ? Promise.resolve(null)
+      : Promise.all([hashFile(file), hashConfig(tesseractConfig)])
+          .then(([fileHash, configHash]) => ({ fileHash, configHash }))
+          .catch((hashError) => {
+            console.warn("OCR cache disabled for this run:", hashError);
+            return null;
+          });
+
+    const processPage = async (pageNum: number): Promise<PageOutcome> => {
+      throwIfCancelled();
+      // Get page with timeout
+      const page = await withTimeout(
+        Promise.race([documentSource.getPage(pageNum), aborted]),
+        30000,
+        () => new Error(`Timeout loading page ${pageNum}`)
+      );
+
       try {
-        console.log(`\n=== PROCESSING PAGE ${pageNum}/${totalPages} ===`);
-        
-        onProgress?.({ 
-          step: 'converting', 
+        const outcome = await readPage(page, pageNum);
+
+        // Keep what OCR produced so the page is not recognized again. Text
+        // layers and Word documents are cheap to read and are not stored.
+        const keys = await cacheKeys;
+        if (keys && !outcome.cached && !page.textContent && (outcome.status === 'ocr' || outcome.status === 'empty')) {
+          await putCachedPage(keys.fileHash, keys.configHash, pageNum, outcome);
+        }
+        return outcome;
+      } finally {
+        page.release();
+      }
+    };
+
+    const readPage = async (page: SourcePage, pageNum: number): Promise<PageOutcome> => {
+      // Word documents carry their text already laid out
+      if (page.textContent) {
+        progress.emit(pageNum, { 
+          step: 'textLayer', 
           pageNumber: pageNum, 
-          totalPages,
-          message: `Converting page ${pageNum} to image...`
+          message: `Reading text on page ${pageNum}...`
         });
-        
-        // Get page with timeout
-        const page = await Promise.race([
-          pdf.getPage(pageNum),
-          new Promise((_, reject) => 
-            setTimeout(() => reject(new Error(`Timeout loading page ${pageNum}`)), 30000)
-          )
-        ]) as any;
-        
-        // Set up canvas with high resolution for better OCR
-        const scale = 3.0; // Increased from 2.0 for better text recognition
-        const viewport = page.getViewport({ scale });
-        
-        const canvas = document.createElement('canvas');
-        const context = canvas.getContext('2d');
-        canvas.height = viewport.height;
-        canvas.width = viewport.width;
-        
-        if (!context) {
-          console.error(`Failed to get canvas context for page ${pageNum}`);
-          failedPages++;
-          continue;
+
+        const { text, lines } = page.textContent;
+        if (!text.trim()) {
+          return emptyPage('empty');
         }
-        
+        return {
+          text,
+          confidence: TEXT_LAYER_CONFIDENCE,
+          status: 'textLayer',
+          renderScale: 1,
+          width: page.width,
+          height: page.height,
+          lines,
+          words: lines.flatMap(line => line.words)
+        };
+      }
+
+      // Born-digital pages already carry exact text, so try that first
+      if (page.pdfPage && options.useTextLayer !== false) {
+        progress.emit(pageNum, { 
+          step: 'textLayer', 
+          pageNumber: pageNum, 
+          message: `Reading embedded text on page ${pageNum}...`
+        });
+
+        const layer = await Promise.race([extractTextLayer(page.pdfPage), aborted]);
+        if (isUsableTextLayer(layer.text)) {
+          debugLog(`Page ${pageNum} has a usable text layer (${layer.text.length} chars), skipping OCR`);
+          return layer;
+        }
+
+        debugLog(`Page ${pageNum} text layer missing or unreliable, falling back to OCR`);
+      }
+
+      const keys = await Promise.race([cacheKeys, aborted]);
+      if (keys) {
+        const cachedPage = await Promise.race([getCachedPage(keys.fileHash, keys.configHash, pageNum), aborted]);
+        if (cachedPage) {
+          debugLog(`Page ${pageNum} found in the OCR cache, skipping OCR`);
+          progress.emit(pageNum, { 
+            step: 'ocr', 
+            pageNumber: pageNum, 
+            message: `Using cached OCR result for page ${pageNum}...`
+          });
+          return { ...cachedPage, cached: true };
+        }
+      }
+      
+      progress.emit(pageNum, { 
+        step: 'converting', 
+        pageNumber: pageNum, 
+        message: `Converting page ${pageNum} to image...`
+      });
+      
+      // Set up canvas with high resolution for better OCR. Images are read
+      // at their own resolution.
+      const scale = page.nativeScale ?? OCR_RENDER_SCALE;
+      const viewport = { width: Math.floor(page.width * scale), height: Math.floor(page.height * scale) };
+      
+      const canvas = canvasPool.acquire();
+      const context = canvas.getContext('2d');
+      canvas.height = viewport.height;
+      canvas.width = viewport.width;
+      
+      if (!context) {
+        canvasPool.release(canvas);
+        console.error(`Failed to get canvas context for page ${pageNum}`);
+        return emptyPage('failed', 'Failed to get canvas context');
+      }
+      
+      let renderTask: RenderHandle | undefined;
+      try {
         // Enhance canvas rendering for better OCR
         context.imageSmoothingEnabled = false;
         context.imageSmoothingQuality = 'high';
         
         // Render page to canvas with timeout
-        const renderContext = {
-          canvasContext: context,
-          viewport: viewport
-        };
-        
-        await Promise.race([
-          page.render(renderContext).promise,
-          new Promise((_, reject) => 
-            setTimeout(() => reject(new Error(`Timeout rendering page ${pageNum}`)), 30000)
-          )
-        ]);
+        renderTask = page.render(context, scale);
+        await withTimeout(
+          Promise.race([renderTask.promise, aborted]),
+          30000,
+          () => new Error(`Timeout rendering page ${pageNum}`)
+        );
         
-        console.log(`Page ${pageNum} rendered to canvas with scale ${scale}`);
+        debugLog(`Page ${pageNum} rendered to canvas with scale ${scale}`);
+
+        const renderedWidth = canvas.width;
+        const renderedHeight = canvas.height;
+        let rotation = 0;
+        let script: string | undefined;
+        if (tesseractConfig.autoRotate) {
+          progress.emit(pageNum, { 
+            step: 'converting', 
+            pageNumber: pageNum, 
+            message: `Detecting orientation of page ${pageNum}...`
+          });
+
+          try {
+            const orientation = await Promise.race([detectOrientation(canvas), aborted]);
+            if (orientation && orientation.confidence >= MIN_ORIENTATION_CONFIDENCE) {
+              rotation = orientation.degrees;
+              script = orientation.script ?? undefined;
+            }
+          } catch (osdError) {
+            if (osdError instanceof ProcessingCancelledError) {
+              throw osdError;
+            }
+            // Not fatal: the page is still worth recognizing as it is
+            console.warn(`Orientation detection failed on page ${pageNum}:`, osdError);
+          }
+
+          if (rotation !== 0) {
+            debugLog(`Page ${pageNum} is rotated, turning it ${rotation}° clockwise`);
+            rotateCanvas(canvas, rotation, rotation % 180 !== 0);
+          }
+        }
+
+        const prepared = preprocessCanvas(canvas, tesseractConfig.preprocessing ?? {});
+        if (prepared.steps.length > 0) {
+          debugLog(`Page ${pageNum} preprocessed:`, prepared.steps.join(', '));
+        }
         
         // Convert canvas to high-quality image for OCR
         const imageDataUrl = canvas.toDataURL('image/png', 1.0); // PNG for better quality
         
         // Run OCR on the image with custom configuration
-        onProgress?.({ 
+        progress.emit(pageNum, { 
           step: 'ocr', 
           pageNumber: pageNum, 
-          totalPages,
           message: `Running OCR on page ${pageNum} with ${tesseractConfig.language} language...`
         });
         
-        console.log(`Starting OCR for page ${pageNum} with config:`, tesseractConfig);
-        
-        // Prepare Tesseract options
-        const tesseractOptions = {
-          logger: (m: any) => {
-            if (m.status === 'recognizing text') {
-              onProgress?.({ 
-                step: 'ocr', 
-                pageNumber: pageNum, 
-                totalPages,
-                ocrProgress: Math.round(m.progress * 100),
-                message: `OCR progress: ${Math.round(m.progress * 100)}%`
-              });
-            }
-          }
-        };
-
-        // Build Tesseract worker options
-        const workerOptions: any = {};
-        if (tesseractConfig.pageSegMode !== undefined) {
-          workerOptions['tessedit_pageseg_mode'] = tesseractConfig.pageSegMode.toString();
-        }
-        if (tesseractConfig.ocrEngineMode !== undefined) {
-          workerOptions['tessedit_ocr_engine_mode'] = tesseractConfig.ocrEngineMode.toString();
-        }
-        if (tesseractConfig.preserveInterwordSpaces) {
-          workerOptions['preserve_interword_spaces'] = '1';
-        }
-        if (tesseractConfig.tesseditCharWhitelist) {
-          workerOptions['tessedit_char_whitelist'] = tesseractConfig.tesseditCharWhitelist;
-        }
-        if (tesseractConfig.tesseditCharBlacklist) {
-          workerOptions['tessedit_char_blacklist'] = tesseractConfig.tesseditCharBlacklist;
-        }
-
+        throwIfCancelled();
+        const pool = await Promise.race([getPool(), aborted]);
+        // A job that times out only costs its own worker, which the pool
+        // replaces
         const ocrResult = await Promise.race([
-          Tesseract.recognize(imageDataUrl, tesseractConfig.language, tesseractOptions).then(result => {
-            // Apply worker options after recognition if needed
-            return result;
-          }),
-          new Promise((_, reject) => 
-            setTimeout(() => reject(new Error(`OCR timeout on page ${pageNum}`)), 90000) // Increased timeout
-          )
-        ]) as any;
+          aborted,
+          pool.recognize(imageDataUrl, (ocrProgress) => {
+            progress.emit(pageNum, { 
+              step: 'ocr', 
+              pageNumber: pageNum, 
+              ocrProgress: Math.round(ocrProgress * 100),
+              message: `OCR progress: ${Math.round(ocrProgress * 100)}%`
+            });
+          }, OCR_TIMEOUT_MS)
+        ]);
         
-        console.log(`OCR completed for page ${pageNum}:`, {
-          confidence: ocrResult.data.confidence,
-          textLength: ocrResult.data.text.length,
-          textPreview: ocrResult.data.text.substring(0, 100),
-          config: tesseractConfig
-        });
+        debugLog(`Page ${pageNum} read with ${Math.round(ocrResult.data.confidence)}% confidence`);
         
         if (ocrResult.data.text && ocrResult.data.text.trim().length > 0) {
-          allText += `\n--- Page ${pageNum} ---\n${ocrResult.data.text}\n`;
-          totalConfidence += ocrResult.data.confidence;
-          processedPages++;
-        } else {
-          console.warn(`No text extracted from page ${pageNum}`);
-          allText += `\n--- Page ${pageNum} (No text found) ---\n`;
-          failedPages++;
+          // Boxes were found on the upright, straightened image; map them
+          // back onto the page as rendered so overlays line up with the
+          // document
+          const lines = mapLineBoxes(collectOCRLines(ocrResult.data), (bbox) =>
+            unrotateBox(
+              unrotateBox(bbox, prepared.deskewAngle, canvas.width, canvas.height),
+              rotation,
+              renderedWidth,
+              renderedHeight,
+              rotation % 180 !== 0
+            )
+          );
+          return {
+            text: ocrResult.data.text,
+            confidence: ocrResult.data.confidence,
+            status: 'ocr',
+            renderScale: scale,
+            width: viewport.width,
+            height: viewport.height,
+            preprocessing: prepared.steps,
+            rotation,
+            script,
+            lines,
+            words: lines.flatMap(line => line.words)
+          };
         }
-        
-        // Clean up canvas
-        canvas.remove();
-        
+
+        console.warn(`No text extracted from page ${pageNum}`);
+        return emptyPage('empty');
+      } finally {
+        // Stop an unfinished render before the canvas goes to the next page
+        renderTask?.cancel();
+        canvasPool.release(canvas);
+      }
+    };
+
+    await runWithConcurrency(pageNumbers, workerCount, async (pageNum) => {
+      const slot = pageNum - pageNumbers[0];
+      const startedAt = performance.now();
+      try {
+        const outcome = await processPage(pageNum);
+        pages[slot] = { ...outcome, pageNumber: pageNum, durationMs: performance.now() - startedAt };
       } catch (pageError) {
+        if (pageError instanceof ProcessingCancelledError) {
+          throw pageError;
+        }
         console.error(`Error processing page ${pageNum}:`, pageError);
-        allText += `\n--- Page ${pageNum} (Error: ${pageError.message}) ---\n`;
-        failedPages++;
+        pages[slot] = {
+          ...emptyPage('failed', pageError.message),
+          pageNumber: pageNum,
+          durationMs: performance.now() - startedAt
+        };
         
-        onProgress?.({ 
+        progress.emit(pageNum, { 
           step: 'ocr', 
           pageNumber: pageNum, 
-          totalPages,
           error: `Failed to process page ${pageNum}: ${pageError.message}`
         });
+      } finally {
+        progress.complete(pageNum);
       }
-    }
+    });
+
+    const readPages = pages.filter(page => page.status === 'textLayer' || page.status === 'ocr');
+    const processedPages = readPages.length;
+    const failedPages = pageNumbers.length - processedPages;
+    const textLayerPages = pages.filter(page => page.status === 'textLayer').length;
+    const totalConfidence = readPages.reduce((sum, page) => sum + page.confidence, 0);
+    
+    // Assemble the text in page order regardless of completion order
+    const allText = joinPageText(pages);
     
     const averageConfidence = processedPages > 0 ? totalConfidence / processedPages : 0;
     
-    console.log("=== PDF PROCESSING COMPLETED ===");
-    console.log(`Total text length: ${allText.length}`);
-    console.log(`Average confidence: ${averageConfidence}%`);
-    console.log(`Processed pages: ${processedPages}/${totalPages}`);
-    console.log(`Failed pages: ${failedPages}`);
-    console.log(`Used config:`, tesseractConfig);
+    debugLog(`Processing finished: ${processedPages}/${pageNumbers.length} pages read`, {
+      failedPages,
+      textLayerPages,
+      averageConfidence: Math.round(averageConfidence)
+    });
     
     if (processedPages === 0) {
       throw new Error("Failed to extract text from any pages. The PDF may contain only images or be corrupted.");
     }
 
-    if (failedPages > totalPages / 2) {
+    if (failedPages > pageNumbers.length / 2) {
       console.warn("More than half the pages failed to process");
     }
     
     return {
+      pages,
       text: allText,
       confidence: averageConfidence
     };
     
   } catch (error) {
+    if (error instanceof ProcessingCancelledError) {
+      debugLog("Processing cancelled");
+      onProgress?.({ step: 'cancelled', message: 'Processing cancelled' });
+      throw error;
+    }
+
     console.error("=== PDF PROCESSING FAILED ===", error);
     
     onProgress?.({ 
@@ -292,5 +996,10 @@ export const processPDFWithOCR = async (
     });
 
     throw error; // Re-throw so the UI can handle it properly
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+    ocrPool?.then(pool => pool.release(), () => {});
+    canvasPool.destroy();
+    source?.destroy();
   }
 };
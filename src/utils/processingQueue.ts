@@ -0,0 +1,183 @@
+import { processPDFWithOCR, TESSERACT_PRESETS } from '@/utils/pdfProcessor';
+import { extractFieldsFromText, withSchemaFields } from '@/utils/fieldExtraction';
+import { loadFieldSchema } from '@/utils/fieldSchema';
+import { loadProcessingLimits } from '@/utils/processingSettings';
+import { getJob, JobStatus, listJobs, ProcessingJob, updateJob } from '@/utils/jobStore';
+
+// Background queue for batch uploads. Jobs are processed one at a time so
+// they share the Tesseract worker pool instead of competing for it, and the
+// queue lives at module level so it keeps running while the reviewer moves
+// between the upload and review screens. Jobs a reload interrupted are put
+// back in the queue by resumeSavedJobs.
+
+export interface QueueEntry {
+  jobId: string;
+  fileName: string;
+  fileId: string;
+  status: JobStatus;
+  // Pages finished so far out of the pages selected for OCR
+  completedPages?: number;
+  totalPages?: number;
+  fieldCount?: number;
+  error?: string;
+}
+
+type QueueListener = (entries: QueueEntry[]) => void;
+
+let entries: QueueEntry[] = [];
+const listeners = new Set<QueueListener>();
+let running = false;
+
+// Jobs the review screen is processing itself, which the queue leaves alone
+const claimedJobs = new Set<string>();
+
+const notify = () => {
+  listeners.forEach(listener => listener(entries));
+};
+
+const updateEntry = (jobId: string, changes: Partial<QueueEntry>) => {
+  entries = entries.map(entry => (entry.jobId === jobId ? { ...entry, ...changes } : entry));
+  notify();
+};
+
+// Subscribe to queue changes. The listener is called right away with the
+// current entries; the returned function unsubscribes.
+export const subscribeToQueue = (listener: QueueListener): (() => void) => {
+  listeners.add(listener);
+  listener(entries);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// True while a queued job is being processed. The review screen leaves the
+// shared workers alone while this is the case.
+export const isQueueRunning = (): boolean => running;
+
+// Let the review screen process a job itself. Returns false while the queue
+// is processing it; a job still waiting is taken out of the queue.
+export const claimJob = (jobId: string): boolean => {
+  if (entries.some(entry => entry.jobId === jobId && entry.status === 'processing')) {
+    return false;
+  }
+  claimedJobs.add(jobId);
+  if (entries.some(entry => entry.jobId === jobId)) {
+    entries = entries.filter(entry => entry.jobId !== jobId);
+    notify();
+  }
+  return true;
+};
+
+// The review screen is done with a job it claimed
+export const releaseJob = (jobId: string) => {
+  claimedJobs.delete(jobId);
+};
+
+// Only jobs nothing has finished yet. A saved 'processing' status is left
+// over from a run that a reload stopped.
+const isUnfinished = (job: ProcessingJob) => job.status === 'queued' || job.status === 'processing';
+
+const processJob = async (job: ProcessingJob) => {
+  const config = job.tesseractConfig ?? TESSERACT_PRESETS.contract;
+  updateEntry(job.id, { status: 'processing' });
+  await updateJob(job.id, { status: 'processing', tesseractConfig: config, error: undefined });
+
+  try {
+    const ocrResult = await processPDFWithOCR(job.file, (progress) => {
+      if (progress.completedPages !== undefined) {
+        updateEntry(job.id, {
+          completedPages: progress.completedPages,
+          totalPages: progress.selectedPages ?? progress.totalPages
+        });
+      }
+    }, config, {
+      limits: loadProcessingLimits(),
+      // Nobody is there to answer a password prompt; the reviewer can enter
+      // it after opening the failed job
+      onPassword: async () => null
+    });
+
+    const schema = loadFieldSchema();
+    const extractedFields = extractFieldsFromText(ocrResult.text, ocrResult.pages, schema);
+    await updateJob(job.id, {
+      status: 'review',
+      extractedText: ocrResult.text,
+      confidence: ocrResult.confidence,
+      pages: ocrResult.pages,
+      fields: withSchemaFields(extractedFields, schema)
+    });
+    updateEntry(job.id, { status: 'review', fieldCount: extractedFields.length });
+  } catch (error) {
+    console.error(`Failed to process ${job.file.name}:`, error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+    await updateJob(job.id, { status: 'failed', error: errorMessage });
+    updateEntry(job.id, { status: 'failed', error: errorMessage });
+  }
+};
+
+const runQueue = async () => {
+  if (running) {
+    return;
+  }
+
+  running = true;
+  try {
+    let next: QueueEntry | undefined;
+    while ((next = entries.find(entry => entry.status === 'queued'))) {
+      const jobId = next.jobId;
+      try {
+        // The job may have been opened and processed on the review screen
+        // while it was waiting
+        const job = await getJob(jobId);
+        if (claimedJobs.has(jobId)) {
+          continue;
+        }
+        if (!job || !isUnfinished(job)) {
+          updateEntry(jobId, { status: job?.status ?? 'failed', error: job ? job.error : "The job is no longer saved." });
+          continue;
+        }
+        await processJob(job);
+      } catch (error) {
+        console.error("Failed to run queued job:", error);
+        updateEntry(jobId, { status: 'failed', error: error instanceof Error ? error.message : "Unknown error occurred" });
+      }
+    }
+  } finally {
+    running = false;
+  }
+};
+
+// Add saved jobs to the end of the queue and start working through it
+export const enqueueJobs = (jobs: ProcessingJob[]) => {
+  entries = [
+    ...entries,
+    ...jobs.map((job): QueueEntry => ({
+      jobId: job.id,
+      fileName: job.file.name,
+      fileId: job.fileId,
+      status: 'queued'
+    }))
+  ];
+  notify();
+  runQueue();
+};
+
+// Queue the saved jobs that an earlier page load left queued or stopped
+// part way through, oldest first. Called once on startup, since the queue
+// itself does not survive a reload.
+export const resumeSavedJobs = async () => {
+  const saved = await listJobs();
+  const unfinished = saved
+    .filter(job => isUnfinished(job) && !claimedJobs.has(job.id) && !entries.some(entry => entry.jobId === job.id))
+    .sort((a, b) => a.createdAt - b.createdAt);
+  if (unfinished.length > 0) {
+    enqueueJobs(unfinished);
+  }
+};
+
+// Drop finished and failed jobs from the list. They stay saved and can
+// still be opened from their link.
+export const clearFinishedJobs = () => {
+  entries = entries.filter(entry => entry.status === 'queued' || entry.status === 'processing');
+  notify();
+};
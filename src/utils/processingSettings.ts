@@ -0,0 +1,25 @@
+import { DEFAULT_PROCESSING_LIMITS, ProcessingLimits } from '@/utils/pdfProcessor';
+
+const LIMITS_STORAGE_KEY = 'processingLimits';
+
+const isPositiveNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+// Limits saved from the processing settings, falling back to the defaults
+// for anything missing or unreadable
+export const loadProcessingLimits = (): ProcessingLimits => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(LIMITS_STORAGE_KEY) ?? '{}');
+    return {
+      maxPages: isPositiveNumber(stored.maxPages) ? stored.maxPages : DEFAULT_PROCESSING_LIMITS.maxPages,
+      maxFileSizeMB: isPositiveNumber(stored.maxFileSizeMB) ? stored.maxFileSizeMB : DEFAULT_PROCESSING_LIMITS.maxFileSizeMB
+    };
+  } catch (error) {
+    console.warn("Ignoring unreadable processing limits:", error);
+    return DEFAULT_PROCESSING_LIMITS;
+  }
+};
+
+export const saveProcessingLimits = (limits: ProcessingLimits) => {
+  localStorage.setItem(LIMITS_STORAGE_KEY, JSON.stringify(limits));
+};
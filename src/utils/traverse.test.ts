@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { Bearing, MetesAndBoundsCall } from '@/utils/legalDescription';
+import { computeTraverse } from '@/utils/traverse';
+
+const call = (bearing: string, distanceFeet: number, curve?: MetesAndBoundsCall['curve']): MetesAndBoundsCall => {
+  const [ns, degrees, ew] = bearing.split(' ');
+  return {
+    text: `${bearing} ${distanceFeet}`,
+    bearing: { ns: ns as Bearing['ns'], degrees: Number(degrees), minutes: 0, seconds: 0, ew: ew as Bearing['ew'] },
+    distance: distanceFeet,
+    unit: 'feet',
+    distanceFeet,
+    ...(curve && { curve })
+  };
+};
+
+// A 100 foot chord under a 60 degree curve of radius 100 cuts off this much
+const SEGMENT_AREA = 5000 * (Math.PI / 3 - Math.sin(Math.PI / 3));
+
+describe('computeTraverse', () => {
+  it('measures how far and in which direction a traverse misses its point of beginning', () => {
+    const traverse = computeTraverse([call('N 0 E', 100), call('N 90 E', 100), call('S 0 W', 99), call('S 90 W', 99)])!;
+
+    const end = traverse.points[traverse.points.length - 1];
+    expect(end.easting).toBeCloseTo(1);
+    expect(end.northing).toBeCloseTo(1);
+    expect(traverse.closureErrorFeet).toBeCloseTo(Math.SQRT2);
+    // The way back to the point of beginning runs S 45° W
+    expect((Math.atan2(-end.easting, -end.northing) * 180) / Math.PI).toBeCloseTo(-135);
+    expect(traverse.precision).toBeCloseTo(398 / Math.SQRT2);
+    expect(traverse.closes).toBe(false);
+  });
+
+  it('treats a misclosure within rounding as closed', () => {
+    const traverse = computeTraverse([call('N 0 E', 100), call('N 90 E', 100), call('S 0 W', 100), call('S 90 W', 100.005)])!;
+
+    expect(traverse.precision).toBeNull();
+    expect(traverse.closes).toBe(true);
+  });
+
+  it('adds the segment of a curve that bulges out of a clockwise parcel', () => {
+    const curve = { direction: 'right' as const, radiusFeet: 100, delta: 60 };
+    const traverse = computeTraverse([call('N 0 E', 100), call('N 90 E', 100, curve), call('S 0 W', 100), call('S 90 W', 100)])!;
+
+    expect(traverse.areaSquareFeet).toBeCloseTo(10_000 + SEGMENT_AREA);
+    expect(traverse.perimeterFeet).toBeCloseTo(300 + (100 * Math.PI) / 3);
+  });
+
+  it('takes off the segment of a curve that bulges into a clockwise parcel', () => {
+    const curve = { direction: 'left' as const, radiusFeet: 100, delta: 60 };
+    const traverse = computeTraverse([call('N 0 E', 100), call('N 90 E', 100, curve), call('S 0 W', 100), call('S 90 W', 100)])!;
+
+    expect(traverse.areaSquareFeet).toBeCloseTo(10_000 - SEGMENT_AREA);
+  });
+
+  it('flips the sign of a curve when the parcel runs counterclockwise', () => {
+    const outward = { direction: 'left' as const, radiusFeet: 100, delta: 60 };
+    const inward = { direction: 'right' as const, radiusFeet: 100, delta: 60 };
+    const parcel = (curve: MetesAndBoundsCall['curve']) =>
+      computeTraverse([call('N 90 E', 100), call('N 0 E', 100, curve), call('S 90 W', 100), call('S 0 W', 100)])!;
+
+    expect(parcel(outward).areaSquareFeet).toBeCloseTo(10_000 + SEGMENT_AREA);
+    expect(parcel(inward).areaSquareFeet).toBeCloseTo(10_000 - SEGMENT_AREA);
+  });
+
+  it('needs at least three calls', () => {
+    expect(computeTraverse([call('N 0 E', 100), call('S 0 W', 100)])).toBeNull();
+  });
+});
@@ -0,0 +1,119 @@
+import { Bearing, MetesAndBoundsCall } from '@/utils/legalDescription';
+
+// Plots the calls of a metes-and-bounds description from the point of
+// beginning and checks that they come back to it. A description that does
+// not close usually has a bearing or distance misread by OCR.
+
+export interface TraversePoint {
+  // Feet from the point of beginning
+  easting: number;
+  northing: number;
+}
+
+export interface Traverse {
+  // The point of beginning followed by the end of every call
+  points: TraversePoint[];
+  perimeterFeet: number;
+  // Distance from the end of the last call back to the point of beginning
+  closureErrorFeet: number;
+  // Perimeter over closure error, the "1:N" precision surveyors quote.
+  // Null when the misclosure is within rounding.
+  precision: number | null;
+  closes: boolean;
+  // Enclosed area, with the segments between curves and their chords
+  areaSquareFeet: number;
+  acres: number;
+}
+
+const SQUARE_FEET_PER_ACRE = 43_560;
+
+// Lowest precision a closing traverse may have; 1:10,000 is the usual
+// minimum for boundary surveys
+const MIN_PRECISION = 10_000;
+
+// Misclosure small enough to be rounding in the stated bearings and distances
+const ROUNDING_TOLERANCE_FEET = 0.01;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Clockwise angle from north, in radians
+export const bearingToAzimuth = ({ ns, degrees, minutes, seconds, ew }: Bearing): number => {
+  const angle = degrees + minutes / 60 + seconds / 3600;
+  if (ns === 'N') {
+    return toRadians(ew === 'E' ? angle : 360 - angle);
+  }
+  return toRadians(ew === 'E' ? 180 - angle : 180 + angle);
+};
+
+// Central angle of a curve in radians, from its delta, its arc length or
+// else its chord
+export const curveAngle = (call: MetesAndBoundsCall): number => {
+  const curve = call.curve;
+  if (!curve) {
+    return 0;
+  }
+  if (curve.delta !== undefined) {
+    return toRadians(curve.delta);
+  }
+  if (curve.arcLengthFeet !== undefined) {
+    return curve.arcLengthFeet / curve.radiusFeet;
+  }
+  return 2 * Math.asin(Math.min(1, call.distanceFeet / (2 * curve.radiusFeet)));
+};
+
+// Null when there are not enough calls to enclose anything
+export const computeTraverse = (calls: MetesAndBoundsCall[]): Traverse | null => {
+  if (calls.length < 3) {
+    return null;
+  }
+
+  const points: TraversePoint[] = [{ easting: 0, northing: 0 }];
+  calls.forEach(call => {
+    const azimuth = bearingToAzimuth(call.bearing);
+    const last = points[points.length - 1];
+    points.push({
+      easting: last.easting + call.distanceFeet * Math.sin(azimuth),
+      northing: last.northing + call.distanceFeet * Math.cos(azimuth)
+    });
+  });
+
+  const end = points[points.length - 1];
+  const closureErrorFeet = Math.hypot(end.easting, end.northing);
+  const perimeterFeet = calls.reduce(
+    (total, call) => total + (call.curve ? call.curve.radiusFeet * curveAngle(call) : call.distanceFeet),
+    0
+  );
+
+  // Shoelace area of the chords, positive when the calls run clockwise
+  let chordArea = 0;
+  for (let index = 0; index < points.length - 1; index++) {
+    const a = points[index];
+    const b = points[index + 1];
+    chordArea += (b.easting - a.easting) * (b.northing + a.northing);
+  }
+  chordArea /= 2;
+  const clockwise = chordArea > 0;
+
+  // A curve bulges out of the parcel when it turns the same way the
+  // traverse runs, and into it otherwise
+  const curveArea = calls.reduce((total, call) => {
+    if (!call.curve) {
+      return total;
+    }
+    const angle = curveAngle(call);
+    const segment = (call.curve.radiusFeet ** 2 / 2) * (angle - Math.sin(angle));
+    return total + ((call.curve.direction === 'right') === clockwise ? segment : -segment);
+  }, 0);
+
+  const areaSquareFeet = Math.abs(chordArea) + curveArea;
+  const isRounding = closureErrorFeet <= ROUNDING_TOLERANCE_FEET;
+  return {
+    points,
+    perimeterFeet,
+    closureErrorFeet,
+    precision: isRounding ? null : perimeterFeet / closureErrorFeet,
+    closes: isRounding || closureErrorFeet <= perimeterFeet / MIN_PRECISION,
+    areaSquareFeet,
+    acres: areaSquareFeet / SQUARE_FEET_PER_ACRE
+  };
+};